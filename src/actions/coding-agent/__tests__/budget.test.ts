@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  TaskBudget,
+  estimateTokens,
+  getBudgetDate,
+  formatBudgetSummary,
+  loadDailyUsage,
+  recordDailyUsage,
+  type BudgetLimits,
+} from '../budget.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const unlimited: BudgetLimits = {
+  iterations: 10,
+  minutes: 0,
+  requests: 0,
+  tokens: 0,
+  dailyRequests: 0,
+  dailyTokens: 0,
+};
+
+/** Minimal in-memory Git Data API */
+function createFakeOctokit() {
+  const objects = new Map<string, any>();
+  const refs = new Map<string, string>();
+  let next = 0;
+  const store = (value: any) => {
+    const sha = `sha${next++}`;
+    objects.set(sha, value);
+    return sha;
+  };
+
+  const git = {
+    getRef: async ({ ref }: any) => {
+      const sha = refs.get(ref);
+      if (!sha) throw Object.assign(new Error('Not Found'), { status: 404 });
+      return { data: { object: { sha } } };
+    },
+    createRef: async ({ ref, sha }: any) => {
+      const name = ref.replace(/^refs\//, '');
+      if (refs.has(name)) throw Object.assign(new Error('Reference already exists'), { status: 422 });
+      refs.set(name, sha);
+      return { data: {} };
+    },
+    updateRef: async ({ ref, sha }: any) => {
+      refs.set(ref, sha);
+      return { data: {} };
+    },
+    createBlob: async ({ content }: any) => ({ data: { sha: store(content) } }),
+    getBlob: async ({ file_sha }: any) => ({
+      data: { content: Buffer.from(objects.get(file_sha)).toString('base64') },
+    }),
+    createTree: async ({ tree }: any) => ({ data: { sha: store(tree) } }),
+    getTree: async ({ tree_sha }: any) => ({ data: { tree: objects.get(tree_sha) } }),
+    createCommit: async ({ tree, parents }: any) => ({ data: { sha: store({ tree, parents }) } }),
+    getCommit: async ({ commit_sha }: any) => ({ data: { tree: { sha: objects.get(commit_sha).tree } } }),
+  };
+
+  return { octokit: { rest: { git } } as any, refs };
+}
+
+describe('estimateTokens', () => {
+  it('should estimate four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('TaskBudget', () => {
+  it('should stop iterating at the iteration limit', () => {
+    const budget = new TaskBudget({ ...unlimited, iterations: 2 });
+    expect(budget.iterationLimit()).toBeNull();
+    budget.recordIteration();
+    budget.recordIteration();
+    expect(budget.iterationLimit()).toBe('iterations');
+    // Requests outside the loop (e.g. a final self-review) are still allowed
+    expect(budget.requestLimit()).toBeNull();
+  });
+
+  it('should apply the iteration limit to each generation run', () => {
+    const budget = new TaskBudget({ ...unlimited, iterations: 1 });
+    budget.startRun();
+    budget.recordIteration();
+    expect(budget.iterationLimit()).toBe('iterations');
+
+    budget.startRun();
+    expect(budget.iterationLimit()).toBeNull();
+    budget.recordIteration();
+    expect(budget.report()).toMatchObject({ iterations: 2, runs: 2 });
+    expect(formatBudgetSummary(budget.report())).toContain('| Iterations | 2 across 2 candidates / 1 each |');
+  });
+
+  it('should track requests and tokens against the task limits', () => {
+    const budget = new TaskBudget({ ...unlimited, requests: 2, tokens: 1000 });
+    budget.recordRequest('a'.repeat(400), 'b'.repeat(400));
+    expect(budget.usage).toEqual({ requests: 1, tokens: 200 });
+    expect(budget.requestLimit()).toBeNull();
+
+    budget.recordRequest('a'.repeat(4000), '');
+    expect(budget.requestLimit()).toBe('requests');
+  });
+
+  it('should stop at the token limit before the request limit is reached', () => {
+    const budget = new TaskBudget({ ...unlimited, requests: 10, tokens: 100 });
+    budget.recordRequest('a'.repeat(400), '');
+    expect(budget.requestLimit()).toBe('tokens');
+  });
+
+  it('should measure wall-clock time from construction', () => {
+    let now = 0;
+    const budget = new TaskBudget({ ...unlimited, minutes: 30 }, undefined, () => now);
+    now = 29 * 60000;
+    expect(budget.requestLimit()).toBeNull();
+    now = 30 * 60000;
+    expect(budget.requestLimit()).toBe('minutes');
+  });
+
+  it('should count the repository spend from earlier tasks today', () => {
+    const budget = new TaskBudget({ ...unlimited, dailyRequests: 5 }, { requests: 4, tokens: 0 });
+    expect(budget.requestLimit()).toBeNull();
+    budget.recordRequest('prompt', 'response');
+    expect(budget.requestLimit()).toBe('daily-requests');
+    expect(budget.report().daily.requests).toBe(5);
+  });
+});
+
+describe('formatBudgetSummary', () => {
+  it('should show usage against the configured limits', () => {
+    const budget = new TaskBudget({ ...unlimited, requests: 40 }, undefined, () => 0);
+    budget.recordIteration();
+    budget.recordRequest('a'.repeat(8000), 'b'.repeat(4000));
+
+    const summary = formatBudgetSummary(budget.report('requests'));
+    expect(summary).toContain('| Iterations | 1 / 10 |');
+    expect(summary).toContain('| Model requests | 1 / 40 |');
+    expect(summary).toContain('| Estimated tokens | 3,000 |');
+    expect(summary).toContain('Stopped at the per-task request limit.');
+    expect(summary).not.toContain('Repository today');
+  });
+
+  it('should include the daily totals when a daily budget is set', () => {
+    const budget = new TaskBudget({ ...unlimited, dailyTokens: 50000 }, { requests: 3, tokens: 1200 });
+    expect(formatBudgetSummary(budget.report())).toContain('| Repository today (tokens) | 1,200 / 50,000 |');
+  });
+});
+
+describe('daily spend', () => {
+  it('should accumulate spend on the budget branch within a day', async () => {
+    const { octokit, refs } = createFakeOctokit();
+    expect(await loadDailyUsage(octokit, 'o', 'r', '2026-03-01')).toEqual({ requests: 0, tokens: 0 });
+
+    await recordDailyUsage(octokit, 'o', 'r', { requests: 3, tokens: 900 }, '2026-03-01');
+    await recordDailyUsage(octokit, 'o', 'r', { requests: 2, tokens: 100 }, '2026-03-01');
+
+    expect(refs.has('heads/agent-budget/daily')).toBe(true);
+    expect(await loadDailyUsage(octokit, 'o', 'r', '2026-03-01')).toEqual({ requests: 5, tokens: 1000 });
+  });
+
+  it('should start from zero on a new day', async () => {
+    const { octokit } = createFakeOctokit();
+    await recordDailyUsage(octokit, 'o', 'r', { requests: 3, tokens: 900 }, '2026-03-01');
+    expect(await loadDailyUsage(octokit, 'o', 'r', '2026-03-02')).toEqual({ requests: 0, tokens: 0 });
+
+    await recordDailyUsage(octokit, 'o', 'r', { requests: 1, tokens: 10 }, '2026-03-02');
+    expect(await loadDailyUsage(octokit, 'o', 'r', '2026-03-02')).toEqual({ requests: 1, tokens: 10 });
+  });
+
+  it('should book spend on the UTC day', () => {
+    expect(getBudgetDate(new Date('2026-03-01T23:30:00.000Z'))).toBe('2026-03-01');
+  });
+});
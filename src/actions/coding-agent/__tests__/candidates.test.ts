@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCandidateModels,
+  countChangedLines,
+  scoreCandidate,
+  selectBestCandidate,
+  formatCandidateTable,
+  type CandidateChanges,
+} from '../candidates.js';
+
+const file = (path: string, content: string) => ({ path, content, operation: 'modify' as const });
+
+describe('getCandidateModels', () => {
+  it('should cycle through the configured models', () => {
+    expect(getCandidateModels(3, ['a', 'b'], 'default')).toEqual(['a', 'b', 'a']);
+  });
+
+  it('should fall back to the default model', () => {
+    expect(getCandidateModels(2, [], 'default')).toEqual(['default', 'default']);
+    expect(getCandidateModels(0, [], 'default')).toEqual(['default']);
+  });
+});
+
+describe('countChangedLines', () => {
+  it('should count added and removed lines', () => {
+    const originals: Record<string, string> = { 'a.ts': 'one\ntwo\nthree\n' };
+    const read = (path: string) => originals[path] ?? null;
+
+    expect(countChangedLines([file('a.ts', 'one\n2\nthree\nfour\n')], read)).toBe(3);
+    expect(countChangedLines([{ path: 'b.ts', content: 'x\ny\n', operation: 'create' }], read)).toBe(2);
+    expect(countChangedLines([{ path: 'a.ts', content: '', operation: 'delete' }], read)).toBe(3);
+  });
+});
+
+describe('scoreCandidate', () => {
+  const base: CandidateChanges = { files: [file('a.ts', 'x')], complete: true, verification: { passed: true }, reviewIssues: [] };
+
+  it('should reward passing verification and a finished run', () => {
+    expect(scoreCandidate(1, 'm', base, 0).score).toBe(150);
+    expect(scoreCandidate(1, 'm', { ...base, verification: undefined }, 0)).toMatchObject({ verification: 'skipped', score: 100 });
+    expect(scoreCandidate(1, 'm', { ...base, verification: { passed: false }, complete: false }, 0).score).toBe(0);
+  });
+
+  it('should subtract review issues and diff size', () => {
+    expect(scoreCandidate(1, 'm', { ...base, reviewIssues: ['a', 'b'] }, 45).score).toBe(150 - 20 - 2);
+  });
+
+  it('should disqualify empty candidates and policy violations', () => {
+    expect(scoreCandidate(1, 'm', { ...base, files: [] }, 0).disqualified).toBe(true);
+    expect(scoreCandidate(1, 'm', { ...base, policyViolations: [{}] }, 0).disqualified).toBe(true);
+  });
+});
+
+describe('selectBestCandidate', () => {
+  const changes: CandidateChanges = { files: [file('a.ts', 'x')], complete: true, verification: { passed: true } };
+
+  it('should pick the highest score, breaking ties by diff size', () => {
+    const scores = [
+      scoreCandidate(1, 'm', { ...changes, complete: false }, 10),
+      scoreCandidate(2, 'm', changes, 30),
+      scoreCandidate(3, 'm', changes, 10),
+    ];
+    expect(selectBestCandidate(scores)).toBe(2);
+  });
+
+  it('should prefer any qualified candidate over a disqualified one', () => {
+    const scores = [
+      scoreCandidate(1, 'm', { ...changes, policyViolations: [{}] }, 0),
+      scoreCandidate(2, 'm', { ...changes, verification: { passed: false }, complete: false }, 400),
+    ];
+    expect(selectBestCandidate(scores)).toBe(1);
+  });
+});
+
+describe('formatCandidateTable', () => {
+  it('should mark the selected candidate', () => {
+    const scores = [
+      scoreCandidate(1, 'claude-sonnet-4.5', { files: [], complete: false }, 0),
+      scoreCandidate(2, 'gpt-5', { files: [file('a.ts', 'x')], complete: true, verification: { passed: true } }, 12),
+    ];
+    const table = formatCandidateTable(scores, 1, '###');
+    expect(table).toContain('### Candidates');
+    expect(table).toContain('| 1 | claude-sonnet-4.5 | — | no | 0 | 0 | disqualified |');
+    expect(table).toContain('| 2 ✅ | gpt-5 | ✅ | yes | 0 | 12 | 150 |');
+  });
+});
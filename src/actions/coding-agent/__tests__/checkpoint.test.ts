@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getCheckpointBranch,
+  hashTask,
+  loadCheckpoint,
+  saveCheckpoint,
+  deleteCheckpoint,
+  formatResumeState,
+  type Checkpoint,
+} from '../checkpoint.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+/** Minimal in-memory Git Data API */
+function createFakeOctokit() {
+  const objects = new Map<string, any>();
+  const refs = new Map<string, string>();
+  let next = 0;
+  const store = (value: any) => {
+    const sha = `sha${next++}`;
+    objects.set(sha, value);
+    return sha;
+  };
+  const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+
+  const git = {
+    getRef: async ({ ref }: any) => {
+      const sha = refs.get(ref);
+      if (!sha) throw notFound();
+      return { data: { object: { sha } } };
+    },
+    createRef: async ({ ref, sha }: any) => {
+      refs.set(ref.replace(/^refs\//, ''), sha);
+      return { data: {} };
+    },
+    updateRef: async ({ ref, sha }: any) => {
+      refs.set(ref, sha);
+      return { data: {} };
+    },
+    deleteRef: async ({ ref }: any) => {
+      if (!refs.delete(ref)) throw notFound();
+      return { data: {} };
+    },
+    createBlob: async ({ content }: any) => ({ data: { sha: store(content) } }),
+    getBlob: async ({ file_sha }: any) => ({
+      data: { content: Buffer.from(objects.get(file_sha)).toString('base64') },
+    }),
+    createTree: async ({ tree }: any) => ({ data: { sha: store(tree) } }),
+    getTree: async ({ tree_sha }: any) => ({ data: { tree: objects.get(tree_sha) } }),
+    createCommit: async ({ tree, parents }: any) => ({ data: { sha: store({ tree, parents }) } }),
+    getCommit: async ({ commit_sha }: any) => ({ data: { tree: { sha: objects.get(commit_sha).tree } } }),
+  };
+
+  return { octokit: { rest: { git } } as any, refs, objects };
+}
+
+const location = { owner: 'o', repo: 'r', branch: 'agent-wip/issue-7' };
+const state = {
+  plan: { summary: 'Add feature' },
+  files: [{ path: 'src/a.ts', content: 'x', operation: 'create' }],
+  iteration: 3,
+  lastReasoning: 'halfway',
+  selfReviewIssues: [],
+};
+
+describe('getCheckpointBranch', () => {
+  it('should key checkpoints by PR first, then issue', () => {
+    expect(getCheckpointBranch(7)).toBe('agent-wip/issue-7');
+    expect(getCheckpointBranch(7, 12)).toBe('agent-wip/pr-12');
+  });
+});
+
+describe('checkpoint persistence', () => {
+  it('should round-trip a checkpoint through the WIP branch', async () => {
+    const { octokit, refs } = createFakeOctokit();
+    const hash = hashTask('Implement the thing');
+
+    expect(await saveCheckpoint(octokit, location, hash, state)).toBe(true);
+    expect(await saveCheckpoint(octokit, location, hash, { ...state, iteration: 4 })).toBe(true);
+    expect(refs.has('heads/agent-wip/issue-7')).toBe(true);
+
+    const loaded = await loadCheckpoint(octokit, location, hash);
+    expect(loaded?.iteration).toBe(4);
+    expect(loaded?.files).toEqual(state.files);
+    expect(loaded?.plan).toEqual(state.plan);
+  });
+
+  it('should ignore a checkpoint saved for different task text', async () => {
+    const { octokit } = createFakeOctokit();
+    await saveCheckpoint(octokit, location, hashTask('old text'), state);
+    expect(await loadCheckpoint(octokit, location, hashTask('edited text'))).toBeNull();
+  });
+
+  it('should return null when no checkpoint exists and delete quietly', async () => {
+    const { octokit } = createFakeOctokit();
+    expect(await loadCheckpoint(octokit, location, 'any')).toBeNull();
+    await expect(deleteCheckpoint(octokit, location)).resolves.toBeUndefined();
+  });
+});
+
+describe('formatResumeState', () => {
+  it('should summarize progress for the pickup comment', () => {
+    const checkpoint: Checkpoint<unknown, { path: string }> = {
+      ...state,
+      version: 1,
+      taskHash: 'h',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    const text = formatResumeState(checkpoint);
+    expect(text).toContain('Resuming from checkpoint');
+    expect(text).toContain('Iterations completed: 3');
+    expect(text).toContain('`src/a.ts`');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  isFailedConclusion,
+  extractErrorSection,
+  collectWorkflowRunFailures,
+  collectCheckSuiteFailures,
+  formatCIFailureFeedback,
+} from '../ci-failure.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const jobLog = [
+  '2026-03-01T10:00:00.0000000Z ##[group]Run npm ci',
+  '2026-03-01T10:00:01.0000000Z added 412 packages in 9s',
+  '2026-03-01T10:00:01.1000000Z ##[endgroup]',
+  ...Array.from({ length: 40 }, (_, i) => `2026-03-01T10:00:02.0000000Z setup line ${i}`),
+  '2026-03-01T10:00:10.0000000Z > tsc --noEmit',
+  '2026-03-01T10:00:12.0000000Z \x1b[96msrc/client.ts\x1b[0m:12:5 - \x1b[91merror\x1b[0m TS2322: Type \'string\' is not assignable to type \'number\'.',
+  '2026-03-01T10:00:12.1000000Z 12     retries: "3",',
+  '2026-03-01T10:00:12.2000000Z Found 1 error in src/client.ts:12',
+  '2026-03-01T10:00:12.3000000Z ##[error]Process completed with exit code 2.',
+  '2026-03-01T10:00:13.0000000Z Post job cleanup.',
+].join('\n');
+
+describe('isFailedConclusion', () => {
+  it('should only treat failures and timeouts as fixable', () => {
+    expect(isFailedConclusion('failure')).toBe(true);
+    expect(isFailedConclusion('timed_out')).toBe(true);
+    expect(isFailedConclusion('cancelled')).toBe(false);
+    expect(isFailedConclusion(null)).toBe(false);
+  });
+});
+
+describe('extractErrorSection', () => {
+  it('should keep the lines around the errors without noise', () => {
+    const excerpt = extractErrorSection(jobLog);
+    expect(excerpt).toContain("src/client.ts:12:5 - error TS2322: Type 'string' is not assignable to type 'number'.");
+    expect(excerpt).toContain('Found 1 error in src/client.ts:12');
+    expect(excerpt).not.toContain('setup line 0');
+    expect(excerpt).not.toContain('Process completed');
+    expect(excerpt).not.toContain('Post job cleanup');
+    expect(excerpt).not.toMatch(/\x1b|2026-03-01T/);
+    expect(excerpt.startsWith('...')).toBe(true);
+  });
+
+  it('should fall back to the end of the log when no line looks like an error', () => {
+    const log = Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n');
+    const excerpt = extractErrorSection(log, 10);
+    expect(excerpt.split('\n')).toEqual(Array.from({ length: 10 }, (_, i) => `line ${90 + i}`));
+  });
+
+  it('should stop at the line limit', () => {
+    const log = Array.from({ length: 200 }, (_, i) => `FAIL test ${i}`).join('\n');
+    expect(extractErrorSection(log, 20).split('\n').length).toBeLessThanOrEqual(22);
+  });
+});
+
+describe('collecting failures', () => {
+  it('should read the logs of the failed jobs of a workflow run', async () => {
+    const downloadJobLogsForWorkflowRun = vi.fn(async () => ({ data: jobLog }));
+    const octokit = {
+      rest: {
+        actions: {
+          listJobsForWorkflowRun: async () => ({
+            data: {
+              jobs: [
+                { id: 1, name: 'lint', conclusion: 'success', html_url: 'https://ci/1', steps: [] },
+                { id: 2, name: 'build', conclusion: 'failure', html_url: 'https://ci/2', steps: [] },
+              ],
+            },
+          }),
+          downloadJobLogsForWorkflowRun,
+        },
+      },
+    } as any;
+
+    const failures = await collectWorkflowRunFailures(octokit, 'o', 'r', 99);
+    expect(downloadJobLogsForWorkflowRun).toHaveBeenCalledWith({ owner: 'o', repo: 'r', job_id: 2 });
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({ name: 'build', url: 'https://ci/2' });
+    expect(failures[0]!.excerpt).toContain('TS2322');
+  });
+
+  it('should name the failed steps when a log cannot be downloaded', async () => {
+    const octokit = {
+      rest: {
+        actions: {
+          listJobsForWorkflowRun: async () => ({
+            data: { jobs: [{ id: 2, name: 'test', conclusion: 'failure', html_url: null, steps: [{ name: 'Run tests', conclusion: 'failure' }] }] },
+          }),
+          downloadJobLogsForWorkflowRun: async () => {
+            throw Object.assign(new Error('Resource not accessible by integration'), { status: 403 });
+          },
+        },
+      },
+    } as any;
+
+    const [failure] = await collectWorkflowRunFailures(octokit, 'o', 'r', 99);
+    expect(failure!.excerpt).toBe('Failed steps: Run tests (log unavailable)');
+  });
+
+  it('should use the check run output for CI outside GitHub Actions', async () => {
+    const octokit = {
+      rest: {
+        checks: {
+          listForSuite: async () => ({
+            data: {
+              check_runs: [
+                {
+                  id: 5,
+                  name: 'ci/circleci: test',
+                  conclusion: 'failure',
+                  app: { slug: 'circleci-checks' },
+                  details_url: 'https://circleci/5',
+                  html_url: 'https://github/5',
+                  output: { title: 'Tests failed', summary: 'FAIL src/client.test.ts', text: null },
+                },
+              ],
+            },
+          }),
+        },
+      },
+    } as any;
+
+    const [failure] = await collectCheckSuiteFailures(octokit, 'o', 'r', 7);
+    expect(failure).toMatchObject({ name: 'ci/circleci: test', url: 'https://circleci/5' });
+    expect(failure!.excerpt).toContain('FAIL src/client.test.ts');
+  });
+});
+
+describe('formatCIFailureFeedback', () => {
+  it('should list each failure with its log excerpt', () => {
+    const feedback = formatCIFailureFeedback([{ name: 'build', url: 'https://ci/2', excerpt: 'error TS2322' }], 'CI');
+    expect(feedback).toContain('## CI Failure');
+    expect(feedback).toContain('The `CI` checks failed');
+    expect(feedback).toContain('### build ([logs](https://ci/2))\n\n```\nerror TS2322\n```');
+  });
+});
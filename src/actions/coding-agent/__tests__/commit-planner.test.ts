@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { planCommits, classifyFile, commitTypeFromLabels } from '../commit-planner.js';
+
+const summary = 'Add retry support to the HTTP client.\n\n*3 file(s) changed across 2 iteration(s). Status: Complete*';
+
+describe('classifyFile', () => {
+  it('should recognise tests and docs', () => {
+    expect(classifyFile('src/__tests__/client.test.ts')).toBe('test');
+    expect(classifyFile('pkg/client_test.go')).toBe('test');
+    expect(classifyFile('README.md')).toBe('docs');
+    expect(classifyFile('docs/guide/setup.html')).toBe('docs');
+    expect(classifyFile('src/client.ts')).toBe('source');
+  });
+});
+
+describe('commitTypeFromLabels', () => {
+  it('should prefer fixes over features', () => {
+    expect(commitTypeFromLabels(['enhancement', 'bug'], 'feat')).toBe('fix');
+    expect(commitTypeFromLabels(['priority:high'], 'feat')).toBe('feat');
+  });
+});
+
+describe('planCommits', () => {
+  const files = [
+    { path: 'README.md' },
+    { path: 'src/client.ts' },
+    { path: 'src/__tests__/client.test.ts' },
+  ];
+
+  it('should commit implementation, tests and docs separately', () => {
+    const commits = planCommits(files, { type: 'feat', summary, reference: 42 });
+    expect(commits.map((c) => c.message)).toEqual([
+      'feat: add retry support to the HTTP client\n\nRefs #42',
+      'test: add retry support to the HTTP client\n\nRefs #42',
+      'docs: add retry support to the HTTP client\n\nRefs #42',
+    ]);
+    expect(commits.map((c) => c.files.map((f) => f.path))).toEqual([
+      ['src/client.ts'],
+      ['src/__tests__/client.test.ts'],
+      ['README.md'],
+    ]);
+  });
+
+  it('should commit rebuilt artifacts separately as chore', () => {
+    const commits = planCommits([...files, { path: 'dist/index.js' }], {
+      type: 'feat',
+      summary,
+      isGenerated: (filePath) => filePath.startsWith('dist/'),
+    });
+    expect(commits.map((c) => c.message.split('\n')[0]!.split(':')[0])).toEqual(['feat', 'test', 'docs', 'chore']);
+    expect(commits[3]!.files).toEqual([{ path: 'dist/index.js' }]);
+  });
+
+  it('should merge groups of the same type', () => {
+    const commits = planCommits(files, { type: 'docs', summary });
+    expect(commits).toHaveLength(2);
+    expect(commits[0]!.files.map((f) => f.path)).toEqual(['src/client.ts', 'README.md']);
+  });
+
+  it('should mark breaking changes and sign off every commit', () => {
+    const commits = planCommits(files, { type: 'feat', breaking: true, summary, signOff: true });
+    expect(commits[0]!.message.split('\n')[0]).toBe('feat!: add retry support to the HTTP client');
+    expect(commits[1]!.message.split('\n')[0]).toBe('test: add retry support to the HTTP client');
+    for (const commit of commits) {
+      expect(commit.message).toMatch(/\n\nSigned-off-by: github-actions\[bot\] <github-actions\[bot\]@users\.noreply\.github\.com>$/);
+    }
+  });
+
+  it('should sign off as the configured identity', () => {
+    const [commit] = planCommits([{ path: 'src/client.ts' }], {
+      type: 'fix',
+      summary,
+      signOff: true,
+      identity: { name: 'gh-agency[bot]', email: 'bot@example.com' },
+    });
+    expect(commit!.message).toMatch(/\n\nSigned-off-by: gh-agency\[bot\] <bot@example\.com>$/);
+  });
+
+  it('should keep long summaries in the body', () => {
+    const long = 'Rework the retry loop so that transient network failures back off exponentially. Also log each retry.';
+    const [commit] = planCommits([{ path: 'src/client.ts' }], { type: 'fix', summary: long, reference: 7 });
+    const [header, body, trailer] = commit!.message.split('\n\n');
+    expect(header!.length).toBeLessThanOrEqual(72);
+    expect(header).toMatch(/^fix: rework the retry loop/);
+    expect(body).toBe(long);
+    expect(trailer).toBe('Refs #7');
+  });
+});
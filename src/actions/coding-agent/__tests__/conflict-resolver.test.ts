@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mergeFile,
+  mergeThreeWay,
+  hasConflictMarkers,
+  fetchFileContent,
+  checkMergeResult,
+  UnmergeableFileError,
+  type ConflictAnalysis,
+} from '../conflict-resolver.js';
+import { DEFAULT_POLICY } from '../policy.js';
+
+const BASE = ['import a;', '', 'function one() {', '  return 1;', '}', '', 'function two() {', '  return 2;', '}'].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('should combine non-overlapping changes from both sides', () => {
+    const ours = BASE.replace('return 1;', 'return 10;');
+    const theirs = BASE.replace('return 2;', 'return 20;');
+    const result = mergeThreeWay(BASE, ours, theirs);
+    expect(result.clean).toBe(true);
+    expect(result.content).toContain('return 10;');
+    expect(result.content).toContain('return 20;');
+  });
+
+  it('should accept identical changes on both sides', () => {
+    const changed = BASE.replace('import a;', 'import a, b;');
+    const result = mergeThreeWay(BASE, changed, changed);
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(changed);
+  });
+
+  it('should mark overlapping changes as conflicts', () => {
+    const ours = BASE.replace('return 1;', 'return 100;');
+    const theirs = BASE.replace('return 1;', 'return -1;');
+    const result = mergeThreeWay(BASE, ours, theirs);
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toContain('<<<<<<< ours\n  return 100;\n||||||| base\n  return 1;\n=======\n  return -1;\n>>>>>>> theirs');
+    expect(hasConflictMarkers(result.content)).toBe(true);
+  });
+
+  it('should keep additions at both ends of the file', () => {
+    const result = mergeThreeWay(BASE, `// header\n${BASE}`, `${BASE}\n// footer`);
+    expect(result.clean).toBe(true);
+    expect(result.content.startsWith('// header\n')).toBe(true);
+    expect(result.content.endsWith('// footer')).toBe(true);
+  });
+});
+
+describe('mergeFile', () => {
+  it('should take the only side that changed', () => {
+    expect(mergeFile({ path: 'a', base: 'x', ours: 'x', theirs: 'y' })).toEqual({ content: 'y', clean: true, conflicts: 0 });
+    expect(mergeFile({ path: 'a', base: 'x', ours: null, theirs: 'x' }).content).toBeNull();
+  });
+
+  it('should flag modify/delete as a conflict', () => {
+    const result = mergeFile({ path: 'a', base: 'x', ours: 'y', theirs: null });
+    expect(result.clean).toBe(false);
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('should ignore marker-like text that is not at line start', () => {
+    expect(hasConflictMarkers('const s = "<<<<<<< not a marker";')).toBe(false);
+    expect(hasConflictMarkers('ok\n=======\nok')).toBe(true);
+  });
+});
+
+describe('fetchFileContent', () => {
+  const octokitReturning = (data: object) =>
+    ({ rest: { repos: { getContent: async () => ({ data }) } } }) as any;
+
+  it('should refuse files the contents API returns without content', async () => {
+    const octokit = octokitReturning({ type: 'file', encoding: 'none', size: 2_000_000, content: '' });
+    await expect(fetchFileContent(octokit, 'o', 'r', 'big.json', 'main')).rejects.toBeInstanceOf(UnmergeableFileError);
+  });
+
+  it('should decode text files', async () => {
+    const octokit = octokitReturning({ type: 'file', encoding: 'base64', size: 3, content: Buffer.from('ok\n').toString('base64') });
+    await expect(fetchFileContent(octokit, 'o', 'r', 'a.txt', 'main')).resolves.toBe('ok\n');
+  });
+});
+
+describe('checkMergeResult', () => {
+  const long = Array.from({ length: 30 }, (_, i) => `line ${i}`).join('\n');
+  const analysis: ConflictAnalysis = {
+    headSha: 'h',
+    baseSha: 'b',
+    mergeBaseSha: 'm',
+    behindBy: 1,
+    candidates: [
+      { path: 'src/a.ts', base: long, ours: long, theirs: long },
+      { path: 'package-lock.json', base: '{}', ours: '{"a":1}', theirs: '{"b":1}' },
+    ],
+    unmergeable: [],
+    baseOnly: [],
+    oursOnly: new Map(),
+  };
+
+  it('should apply the policy and the deletion guard to the merge result', () => {
+    const resolved = new Map<string, string | null>([['src/a.ts', 'line 0'], ['package-lock.json', '{"a":1,"b":1}']]);
+    const problems = checkMergeResult(analysis, resolved, ['src/a.ts'], DEFAULT_POLICY, 50);
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toContain('package-lock.json is protected by policy');
+    expect(problems[1]).toContain('src/a.ts: Change would delete 97%');
+  });
+
+  it('should accept a merge that keeps both sides', () => {
+    const resolved = new Map<string, string | null>([['src/a.ts', `${long}\nline 30`]]);
+    expect(checkMergeResult(analysis, resolved, ['src/a.ts'], DEFAULT_POLICY, 50)).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_GENERATED_PATHS,
+  isGeneratedPath,
+  isBinaryContent,
+  hasTextContent,
+  describeFileChange,
+  listTouchedPaths,
+  writeFileChanges,
+} from '../file-changes.js';
+
+describe('isGeneratedPath', () => {
+  it('should match build output and lockfiles at any depth', () => {
+    expect(isGeneratedPath('dist/index.js', DEFAULT_GENERATED_PATHS)).toBe(true);
+    expect(isGeneratedPath('packages/api/package-lock.json', DEFAULT_GENERATED_PATHS)).toBe(true);
+    expect(isGeneratedPath('src/dist.ts', DEFAULT_GENERATED_PATHS)).toBe(false);
+  });
+});
+
+describe('isBinaryContent', () => {
+  it('should detect NUL bytes near the start', () => {
+    expect(isBinaryContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))).toBe(true);
+    expect(isBinaryContent('plain text\n')).toBe(false);
+    expect(isBinaryContent('x'.repeat(9000) + '\0')).toBe(false);
+  });
+});
+
+describe('describeFileChange', () => {
+  it('should show renames and notes', () => {
+    expect(describeFileChange({ path: 'b.sh', from: 'a.sh', content: '', operation: 'rename', moveOnly: true, mode: '100755' }))
+      .toBe('rename: a.sh → b.sh (executable, content unchanged)');
+    expect(describeFileChange({ path: 'logo.png', content: 'AAAA', operation: 'create', encoding: 'base64' }))
+      .toBe('create: logo.png (binary)');
+  });
+
+  it('should only treat readable content as text', () => {
+    expect(hasTextContent({ path: 'a.ts', content: 'x', operation: 'modify' })).toBe(true);
+    expect(hasTextContent({ path: 'a.png', content: 'AAAA', operation: 'modify', encoding: 'base64' })).toBe(false);
+    expect(hasTextContent({ path: 'b.ts', from: 'a.ts', content: '', operation: 'rename', moveOnly: true })).toBe(false);
+  });
+
+  it('should list both paths of a rename', () => {
+    expect(listTouchedPaths([
+      { path: 'b.ts', from: 'a.ts', content: '', operation: 'rename', moveOnly: true },
+      { path: 'c.ts', content: '', operation: 'delete' },
+    ])).toEqual(['a.ts', 'b.ts', 'c.ts']);
+  });
+});
+
+describe('writeFileChanges', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'file-changes-test-'));
+    fs.writeFileSync(path.join(root, 'run.sh'), '#!/bin/sh\necho hi\n', { mode: 0o755 });
+    fs.writeFileSync(path.join(root, 'old.txt'), 'old\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should move files, keeping their mode', () => {
+    writeFileChanges(root, [{ path: 'bin/run.sh', from: 'run.sh', content: '', operation: 'rename', moveOnly: true }]);
+    expect(fs.existsSync(path.join(root, 'run.sh'))).toBe(false);
+    expect(fs.readFileSync(path.join(root, 'bin/run.sh'), 'utf-8')).toBe('#!/bin/sh\necho hi\n');
+    expect(fs.statSync(path.join(root, 'bin/run.sh')).mode & 0o111).not.toBe(0);
+  });
+
+  it('should write binary content and set the executable bit', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    writeFileChanges(root, [
+      { path: 'logo.png', content: png.toString('base64'), operation: 'create', encoding: 'base64' },
+      { path: 'tool.sh', content: '#!/bin/sh\n', operation: 'create', mode: '100755' },
+      { path: 'old.txt', content: '', operation: 'delete' },
+    ]);
+    expect(fs.readFileSync(path.join(root, 'logo.png')).equals(png)).toBe(true);
+    expect(fs.statSync(path.join(root, 'tool.sh')).mode & 0o111).not.toBe(0);
+    expect(fs.existsSync(path.join(root, 'old.txt'))).toBe(false);
+  });
+
+  it('should refuse paths outside the tree', () => {
+    expect(() => writeFileChanges(root, [{ path: '../escape.txt', content: 'x', operation: 'create' }])).toThrow(
+      'outside the working tree'
+    );
+  });
+});
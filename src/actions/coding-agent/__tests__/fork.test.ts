@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseForkRepository,
+  isSameRepository,
+  formatPullRequestHead,
+  findPullRequestFork,
+  syncFork,
+} from '../fork.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const upstream = { owner: 'acme', repo: 'widgets' };
+const fork = { owner: 'acme-bot', repo: 'widgets' };
+
+describe('parseForkRepository', () => {
+  it('should return null when fork mode is off', () => {
+    expect(parseForkRepository('', upstream)).toBeNull();
+    expect(parseForkRepository('  ', upstream)).toBeNull();
+  });
+
+  it('should parse owner/repo', () => {
+    expect(parseForkRepository(' acme-bot/widgets.js ', upstream)).toEqual({ owner: 'acme-bot', repo: 'widgets.js' });
+  });
+
+  it('should reject malformed values and the upstream repository', () => {
+    expect(() => parseForkRepository('acme-bot', upstream)).toThrow('expected owner/repo');
+    expect(() => parseForkRepository('acme-bot/widgets/extra', upstream)).toThrow('expected owner/repo');
+    expect(() => parseForkRepository('acme-bot/..', upstream)).toThrow('expected owner/repo');
+    expect(() => parseForkRepository('ACME/Widgets', upstream)).toThrow('must differ');
+  });
+});
+
+describe('isSameRepository', () => {
+  it('should compare case-insensitively', () => {
+    expect(isSameRepository({ owner: 'Acme-Bot', repo: 'Widgets' }, fork)).toBe(true);
+    expect(isSameRepository(upstream, fork)).toBe(false);
+  });
+});
+
+describe('formatPullRequestHead', () => {
+  it('should qualify the branch with the fork owner', () => {
+    expect(formatPullRequestHead('agent/issue-4', fork)).toBe('acme-bot:agent/issue-4');
+    expect(formatPullRequestHead('agent/issue-4', null)).toBe('agent/issue-4');
+  });
+});
+
+describe('findPullRequestFork', () => {
+  const octokitWithHead = (head: unknown) =>
+    ({ rest: { pulls: { get: vi.fn().mockResolvedValue({ data: { head: { repo: head } } }) } } }) as any;
+
+  it('should return the fork when the PR head lives on it', async () => {
+    const octokit = octokitWithHead({ owner: { login: 'acme-bot' }, name: 'widgets' });
+    expect(await findPullRequestFork(octokit, upstream, 3, fork)).toEqual(fork);
+    expect(octokit.rest.pulls.get).toHaveBeenCalledWith({ owner: 'acme', repo: 'widgets', pull_number: 3 });
+  });
+
+  it('should return null for PRs on upstream or with a deleted head repository', async () => {
+    expect(await findPullRequestFork(octokitWithHead({ owner: { login: 'acme' }, name: 'widgets' }), upstream, 3, fork)).toBeNull();
+    expect(await findPullRequestFork(octokitWithHead(null), upstream, 3, fork)).toBeNull();
+  });
+});
+
+describe('syncFork', () => {
+  it('should merge upstream into the fork branch', async () => {
+    const mergeUpstream = vi.fn().mockResolvedValue({ data: { merge_type: 'fast-forward' } });
+    const octokit = { rest: { repos: { mergeUpstream } } } as any;
+    expect(await syncFork(octokit, fork, 'main')).toBe(true);
+    expect(mergeUpstream).toHaveBeenCalledWith({ owner: 'acme-bot', repo: 'widgets', branch: 'main' });
+  });
+
+  it('should report a failed sync without throwing', async () => {
+    const mergeUpstream = vi.fn().mockRejectedValue(Object.assign(new Error('Conflict'), { status: 409 }));
+    expect(await syncFork({ rest: { repos: { mergeUpstream } } } as any, fork, 'main')).toBe(false);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySearchReplaceEdits,
+  applyUnifiedDiff,
+  measureDeletion,
+  checkDeletionGuard,
+  formatEditConflicts,
+} from '../patch-applier.js';
+
+const SOURCE = [
+  'export function add(a: number, b: number): number {',
+  '  return a + b;',
+  '}',
+  '',
+  'export function sub(a: number, b: number): number {',
+  '  return a - b;',
+  '}',
+  '',
+].join('\n');
+
+describe('applySearchReplaceEdits', () => {
+  it('should apply an exact search/replace', () => {
+    const result = applySearchReplaceEdits(
+      SOURCE,
+      [{ search: '  return a + b;', replace: '  return b + a;' }],
+      'math.ts'
+    );
+    expect(result.applied).toBe(1);
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toContain('return b + a;');
+    expect(result.content.endsWith('\n')).toBe(true);
+  });
+
+  it('should match ignoring whitespace differences and keep file indentation', () => {
+    const result = applySearchReplaceEdits(
+      SOURCE,
+      [{ search: 'return a - b;', replace: 'return a - b - 0;' }],
+      'math.ts'
+    );
+    expect(result.applied).toBe(1);
+    expect(result.content).toContain('  return a - b - 0;');
+  });
+
+  it('should report ambiguous search text as a conflict', () => {
+    const result = applySearchReplaceEdits(SOURCE, [{ search: '}', replace: '};' }], 'math.ts');
+    expect(result.applied).toBe(0);
+    expect(result.conflicts[0]?.reason).toContain('matches 2 locations');
+    expect(result.content).toBe(SOURCE);
+  });
+
+  it('should not overwrite file lines that differ from the search text', () => {
+    const result = applySearchReplaceEdits(
+      SOURCE,
+      [{
+        search: [
+          'export function sub(a: number, b: number): number {',
+          '  return a - b - 1;',
+          '}',
+          '',
+          'export function mul(a: number, b: number): number {',
+        ].join('\n'),
+        replace: '',
+      }],
+      'math.ts'
+    );
+    expect(result.applied).toBe(0);
+    expect(result.conflicts[0]?.reason).toContain('not found');
+    expect(result.content).toBe(SOURCE);
+  });
+
+  it('should report search text that matches several locations when ignoring whitespace', () => {
+    const source = 'if (a) {\n  run();\n}\nif (b) {\n    run();\n}\n';
+    const result = applySearchReplaceEdits(source, [{ search: 'run();', replace: 'stop();' }], 'run.ts');
+    expect(result.applied).toBe(0);
+    expect(result.conflicts[0]?.reason).toContain('matches 2 locations when ignoring whitespace');
+    expect(result.content).toBe(source);
+  });
+
+  it('should report missing search text with the closest region', () => {
+    const result = applySearchReplaceEdits(
+      SOURCE,
+      [{ search: 'export function mul(a: number, b: number): number {', replace: '' }],
+      'math.ts'
+    );
+    expect(result.applied).toBe(0);
+    expect(result.conflicts[0]?.reason).toContain('not found');
+    expect(result.conflicts[0]?.closestMatch).toContain('export function');
+  });
+
+  it('should append when the search block is empty', () => {
+    const result = applySearchReplaceEdits(SOURCE, [{ search: '', replace: 'export const ZERO = 0;' }], 'math.ts');
+    expect(result.content.trimEnd().endsWith('export const ZERO = 0;')).toBe(true);
+  });
+});
+
+describe('applyUnifiedDiff', () => {
+  it('should apply a hunk at its stated position', () => {
+    const patch = [
+      '--- a/math.ts',
+      '+++ b/math.ts',
+      '@@ -5,3 +5,3 @@',
+      ' export function sub(a: number, b: number): number {',
+      '-  return a - b;',
+      '+  return a - b || 0;',
+      ' }',
+    ].join('\n');
+    const result = applyUnifiedDiff(SOURCE, patch, 'math.ts');
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toContain('return a - b || 0;');
+  });
+
+  it('should tolerate drifted line numbers', () => {
+    const patch = ['@@ -40,2 +40,2 @@', '-  return a + b;', '+  return a + b + 0;', ' }'].join('\n');
+    const result = applyUnifiedDiff(SOURCE, patch, 'math.ts');
+    expect(result.applied).toBe(1);
+    expect(result.content).toContain('return a + b + 0;');
+  });
+
+  it('should fuzz away mismatched outer context lines', () => {
+    const patch = [
+      '@@ -1,3 +1,3 @@',
+      ' export function add(x: number, y: number): number {',
+      '-  return a + b;',
+      '+  return a + b + 1;',
+      ' }',
+    ].join('\n');
+    const result = applyUnifiedDiff(SOURCE, patch, 'math.ts');
+    expect(result.applied).toBe(1);
+    expect(result.content).toContain('return a + b + 1;');
+  });
+
+  it('should report hunks that do not match', () => {
+    const patch = ['@@ -1,2 +1,2 @@', '-const unrelated = 1;', '+const unrelated = 2;', '-const other = 3;'].join('\n');
+    const result = applyUnifiedDiff(SOURCE, patch, 'math.ts');
+    expect(result.applied).toBe(0);
+    expect(result.conflicts).toHaveLength(1);
+  });
+
+  it('should keep hunk lines that look like file headers', () => {
+    const source = ['let i = 0;', '-- x', 'done();'].join('\n');
+    const patch = [
+      'diff --git a/loop.ts b/loop.ts',
+      '--- a/loop.ts',
+      '+++ b/loop.ts',
+      '@@ -1,3 +1,3 @@',
+      ' let i = 0;',
+      '--- x',
+      '+++i;',
+      ' done();',
+    ].join('\n');
+    const result = applyUnifiedDiff(source, patch, 'loop.ts');
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(['let i = 0;', '++i;', 'done();'].join('\n'));
+  });
+
+  it('should report patches without hunks', () => {
+    const result = applyUnifiedDiff(SOURCE, 'not a patch', 'math.ts');
+    expect(result.conflicts[0]?.reason).toContain('@@');
+  });
+});
+
+describe('measureDeletion', () => {
+  it('should count removed non-blank lines', () => {
+    const stats = measureDeletion('a\nb\nc\nd\n', 'a\nd\n');
+    expect(stats.originalLines).toBe(4);
+    expect(stats.removedLines).toBe(2);
+    expect(stats.percent).toBe(50);
+  });
+
+  it('should not count moved lines as deleted', () => {
+    const stats = measureDeletion('a\nb\nc\n', 'c\nb\na\n');
+    expect(stats.removedLines).toBe(0);
+  });
+});
+
+describe('checkDeletionGuard', () => {
+  const long = Array.from({ length: 30 }, (_, i) => `const v${i} = ${i};`).join('\n');
+
+  it('should reject deleting or gutting a long file unless planned', () => {
+    expect(checkDeletionGuard('a.ts', long, null, 50, false)?.reason).toContain('remove all 30 lines');
+    expect(checkDeletionGuard('a.ts', long, 'const v0 = 0;', 50, false)?.reason).toContain('above the 50% limit');
+    expect(checkDeletionGuard('a.ts', long, null, 50, true)).toBeNull();
+  });
+
+  it('should allow small changes and short files', () => {
+    expect(checkDeletionGuard('a.ts', long, `${long}\nconst extra = 1;`, 50, false)).toBeNull();
+    expect(checkDeletionGuard('a.ts', 'const a = 1;\n', null, 50, false)).toBeNull();
+  });
+});
+
+describe('formatEditConflicts', () => {
+  it('should include the closest match when available', () => {
+    const [message] = formatEditConflicts([{ path: 'x.ts', hunk: 2, reason: 'not found', closestMatch: '3: foo' }]);
+    expect(message).toContain('x.ts (edit 2): not found');
+    expect(message).toContain('3: foo');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  formatPlanComment,
+  parsePlanComment,
+  isPlanPending,
+  markPlanApproved,
+  findPlanComment,
+  type ApprovalPlan,
+} from '../plan-approval.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const plan: ApprovalPlan = {
+  summary: 'Add retry support to the client',
+  files: ['src/client.ts', 'src/__tests__/client.test.ts'],
+  approach: '1. Wrap requests in a retry loop\n2. Add tests for backoff',
+  estimatedComplexity: 'medium',
+  risks: ['Retries could hide real outages'],
+};
+
+describe('plan comment', () => {
+  it('should read back the plan it renders', () => {
+    const body = formatPlanComment(plan, true);
+    expect(isPlanPending(body)).toBe(true);
+    expect(parsePlanComment(body)).toEqual({ ...plan, largeDeletions: undefined });
+  });
+
+  it('should implement the plan as a maintainer edited it', () => {
+    const edited = formatPlanComment(plan, true)
+      .replace('- [x] `src/__tests__/client.test.ts`', '- [ ] `src/__tests__/client.test.ts`\n- [x] `README.md`')
+      .replace('2. Add tests for backoff', '2. Document the retry option')
+      .replace(/### Complexity\n\nmedium/, '### Complexity\n\nLow');
+
+    const parsed = parsePlanComment(edited);
+    expect(parsed?.files).toEqual(['src/client.ts', 'README.md']);
+    expect(parsed?.approach).toBe('1. Wrap requests in a retry loop\n2. Document the retry option');
+    expect(parsed?.estimatedComplexity).toBe('low');
+  });
+
+  it('should reject a plan with every file unchecked', () => {
+    const body = formatPlanComment(plan, true).replace(/- \[x\]/g, '- [ ]');
+    expect(parsePlanComment(body)).toBeNull();
+  });
+
+  it('should stop waiting for approval once approved', () => {
+    const approved = markPlanApproved(formatPlanComment(plan, true), 'octocat');
+    expect(isPlanPending(approved)).toBe(false);
+    expect(approved).toContain('Approved by @octocat');
+    expect(parsePlanComment(approved)?.files).toEqual(plan.files);
+    expect(markPlanApproved(approved, 'someone-else')).toBe(approved);
+  });
+
+  it('should not ask dry-run plans for approval', () => {
+    expect(isPlanPending(formatPlanComment(plan, false))).toBe(false);
+  });
+});
+
+describe('findPlanComment', () => {
+  it('should pick the latest plan posted by the bot', async () => {
+    const body = formatPlanComment(plan, true);
+    const octokit = {
+      rest: {
+        issues: {
+          listComments: async () => ({
+            data: [
+              { id: 1, body, user: { type: 'Bot' } },
+              { id: 2, body: `${body}\n\nquoted`, user: { type: 'User' } },
+              { id: 3, body: formatPlanComment({ ...plan, summary: 'Newer' }, true), user: { type: 'Bot' } },
+              { id: 4, body: 'Looks good', user: { type: 'User' } },
+            ],
+          }),
+        },
+      },
+    } as any;
+
+    const comment = await findPlanComment(octokit, 'o', 'r', 1);
+    expect(comment?.id).toBe(3);
+  });
+});
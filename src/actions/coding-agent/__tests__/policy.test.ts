@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  matchesGlob,
+  parsePolicy,
+  checkFilePolicy,
+  checkChangePolicy,
+  evaluatePolicy,
+  enforcePolicy,
+  loadAgentPolicy,
+  PolicyViolationError,
+  DEFAULT_POLICY,
+  type AgentPolicy,
+} from '../policy.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const policy: AgentPolicy = {
+  protectedPaths: ['.github/workflows/**', 'package.json', 'LICENSE*'],
+  maxFiles: 2,
+  maxAddedLines: 3,
+  maxRemovedLines: 1,
+  forbiddenOperations: [{ operation: 'delete', paths: ['src/'] }],
+};
+
+describe('matchesGlob', () => {
+  it('should match file names at any depth when the glob has no slash', () => {
+    expect(matchesGlob('package.json', 'package.json')).toBe(true);
+    expect(matchesGlob('packages/a/package.json', 'package.json')).toBe(true);
+    expect(matchesGlob('LICENSE.md', 'LICENSE*')).toBe(true);
+    expect(matchesGlob('src/package.json.ts', 'package.json')).toBe(false);
+  });
+
+  it('should anchor globs containing a slash', () => {
+    expect(matchesGlob('.github/workflows/ci.yml', '.github/workflows/**')).toBe(true);
+    expect(matchesGlob('.github/workflows/ci.yml', '.github/workflows/*.yml')).toBe(true);
+    expect(matchesGlob('docs/.github/workflows/ci.yml', '.github/workflows/**')).toBe(false);
+    expect(matchesGlob('src/a/b.ts', 'src/*.ts')).toBe(false);
+    expect(matchesGlob('src/a/b.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('src/b.ts', 'src/**/*.ts')).toBe(true);
+  });
+
+  it('should treat a trailing slash as everything under the directory', () => {
+    expect(matchesGlob('src/deep/file.ts', 'src/')).toBe(true);
+    expect(matchesGlob('srcx/file.ts', 'src/')).toBe(false);
+  });
+
+  it('should match a directory without another slash at any depth', () => {
+    expect(matchesGlob('packages/api/dist/index.js', 'dist/')).toBe(true);
+    expect(matchesGlob('dist/index.js', 'dist/')).toBe(true);
+    expect(matchesGlob('packages/dist.js', 'dist/')).toBe(false);
+    expect(matchesGlob('packages/api/dist/index.js', '/dist/')).toBe(false);
+    expect(matchesGlob('packages/api/dist/index.js', 'api/dist/')).toBe(false);
+  });
+
+  it('should protect workflows and package.json by default', () => {
+    expect(checkFilePolicy(DEFAULT_POLICY, '.github/workflows/ci.yml', 'modify')?.rule).toBe('protected-path');
+    expect(checkFilePolicy(DEFAULT_POLICY, 'packages/api/package.json', 'modify')?.rule).toBe('protected-path');
+    expect(checkFilePolicy(DEFAULT_POLICY, 'src/index.ts', 'modify')).toBeNull();
+  });
+});
+
+describe('parsePolicy', () => {
+  it('should fill defaults and always protect the policy file', () => {
+    const parsed = parsePolicy(JSON.stringify({ protectedPaths: ['*.lock'], maxFiles: 5 }));
+    expect(parsed.protectedPaths).toEqual(['.github/agent-policy.json', '*.lock']);
+    expect(parsed.maxFiles).toBe(5);
+    expect(parsed.maxAddedLines).toBe(0);
+    expect(parsed.forbiddenOperations).toEqual([]);
+  });
+
+  it('should drop malformed forbidden operations', () => {
+    const parsed = parsePolicy(JSON.stringify({
+      forbiddenOperations: [{ operation: 'rename', paths: ['a'] }, { operation: 'delete', paths: ['src/'] }],
+    }));
+    expect(parsed.forbiddenOperations).toEqual([{ operation: 'delete', paths: ['src/'] }]);
+  });
+});
+
+describe('checkFilePolicy', () => {
+  it('should reject protected paths for any operation', () => {
+    expect(checkFilePolicy(policy, '.github/workflows/ci.yml', 'modify')?.rule).toBe('protected-path');
+    expect(checkFilePolicy(policy, 'package.json', 'create')?.rule).toBe('protected-path');
+  });
+
+  it('should reject forbidden operations only', () => {
+    expect(checkFilePolicy(policy, 'src/a.ts', 'delete')?.rule).toBe('forbidden-operation');
+    expect(checkFilePolicy(policy, 'src/a.ts', 'modify')).toBeNull();
+    expect(checkFilePolicy(policy, 'test/a.ts', 'delete')).toBeNull();
+  });
+});
+
+describe('checkChangePolicy', () => {
+  it('should treat a rename as deleting the old path and creating the new one', () => {
+    const rename = { path: 'lib/a.ts', from: 'src/a.ts', content: '', operation: 'rename' as const, moveOnly: true };
+    expect(checkChangePolicy(policy, rename).map((v) => v.rule)).toEqual(['forbidden-operation']);
+    expect(checkChangePolicy(policy, { ...rename, path: 'package.json', from: 'lib/b.json' }).map((v) => v.rule)).toEqual([
+      'protected-path',
+    ]);
+    expect(checkChangePolicy(policy, { ...rename, from: 'test/a.ts' })).toEqual([]);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('should count added and removed lines against the originals', () => {
+    const originals: Record<string, string> = { 'src/a.ts': 'one\ntwo\nthree' };
+    const violations = evaluatePolicy(
+      policy,
+      [
+        { path: 'src/a.ts', content: 'one\nTWO\nTHREE', operation: 'modify' },
+        { path: 'src/b.ts', content: 'x\ny', operation: 'create' },
+      ],
+      (path) => originals[path] ?? null
+    );
+    expect(violations.map((v) => v.rule)).toEqual(['max-added-lines', 'max-removed-lines']);
+  });
+
+  it('should count a rename against the old path and skip binary content', () => {
+    const originals: Record<string, string> = { 'lib/old.ts': 'one\ntwo' };
+    const violations = evaluatePolicy(
+      policy,
+      [
+        { path: 'lib/new.ts', from: 'lib/old.ts', content: 'one\ntwo\nthree', operation: 'rename' },
+        { path: 'assets/logo.png', content: 'iVBORw0KGgo=\n'.repeat(10), operation: 'create', encoding: 'base64' },
+      ],
+      (path) => originals[path] ?? null
+    );
+    expect(violations).toEqual([]);
+  });
+
+  it('should enforce the file limit', () => {
+    const changes = ['a', 'b', 'c'].map((name) => ({ path: `docs/${name}.md`, content: '', operation: 'create' as const }));
+    expect(evaluatePolicy(policy, changes, () => null).map((v) => v.rule)).toEqual(['max-files']);
+  });
+
+  it('should pass changes within the policy', () => {
+    expect(evaluatePolicy(policy, [{ path: 'src/a.ts', content: 'x', operation: 'create' }], () => null)).toEqual([]);
+  });
+});
+
+describe('enforcePolicy', () => {
+  it('should throw with the violations attached', () => {
+    try {
+      enforcePolicy(policy, [{ path: 'package.json', content: '{}', operation: 'modify' }], () => '{}');
+      expect.fail('expected a PolicyViolationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PolicyViolationError);
+      expect((error as PolicyViolationError).violations).toHaveLength(1);
+    }
+  });
+});
+
+describe('loadAgentPolicy', () => {
+  it('should read the policy file without a ref', async () => {
+    const getContent = vi.fn(async () => ({
+      data: { type: 'file', content: Buffer.from(JSON.stringify({ maxFiles: 4 })).toString('base64') },
+    }));
+    const octokit = { rest: { repos: { getContent } } } as any;
+    const loaded = await loadAgentPolicy(octokit, 'o', 'r');
+    expect(loaded.maxFiles).toBe(4);
+    expect(getContent).toHaveBeenCalledWith({ owner: 'o', repo: 'r', path: '.github/agent-policy.json' });
+  });
+
+  it('should fall back to the default policy when the file is missing', async () => {
+    const getContent = vi.fn(async () => {
+      throw Object.assign(new Error('Not Found'), { status: 404 });
+    });
+    const octokit = { rest: { repos: { getContent } } } as any;
+    expect(await loadAgentPolicy(octokit, 'o', 'r')).toBe(DEFAULT_POLICY);
+  });
+
+  it('should protect a custom policy file, also when falling back to the defaults', async () => {
+    const found = { rest: { repos: { getContent: vi.fn(async () => ({
+      data: { type: 'file', content: Buffer.from(JSON.stringify({ protectedPaths: [] })).toString('base64') },
+    })) } } } as any;
+    const missing = { rest: { repos: { getContent: vi.fn(async () => {
+      throw Object.assign(new Error('Not Found'), { status: 404 });
+    }) } } } as any;
+
+    for (const octokit of [found, missing]) {
+      const policy = await loadAgentPolicy(octokit, 'o', 'r', 'config/agent.json');
+      expect(checkFilePolicy(policy, 'config/agent.json', 'modify')?.rule).toBe('protected-path');
+    }
+    expect(DEFAULT_POLICY.protectedPaths).not.toContain('config/agent.json');
+  });
+});
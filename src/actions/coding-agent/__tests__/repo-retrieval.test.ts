@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractMentionedPaths,
+  extractSymbols,
+  findImports,
+  formatRetrievalContext,
+  type RetrievalContext,
+} from '../repo-retrieval.js';
+
+const FILES = [
+  'src/index.ts',
+  'src/sdk/index.ts',
+  'src/sdk/github-api.ts',
+  'src/shared/types.ts',
+  'src/shared/utils.js',
+  'README.md',
+];
+
+describe('extractMentionedPaths', () => {
+  it('should find full and unambiguous bare paths', () => {
+    const text = 'Update src/shared/types.ts and github-api.ts, see README.md';
+    expect(extractMentionedPaths(text, FILES)).toEqual([
+      'src/shared/types.ts',
+      'src/sdk/github-api.ts',
+      'README.md',
+    ]);
+  });
+
+  it('should skip ambiguous bare filenames', () => {
+    expect(extractMentionedPaths('Look at index.ts', FILES)).toEqual([]);
+  });
+});
+
+describe('extractSymbols', () => {
+  it('should extract code-formatted and camelCase identifiers', () => {
+    const symbols = extractSymbols('`planTask` ignores buildUnifiedPrompt output in GitHub');
+    expect(symbols).toContain('planTask');
+    expect(symbols).toContain('buildUnifiedPrompt');
+    expect(symbols).not.toContain('GitHub');
+  });
+});
+
+describe('findImports', () => {
+  it('should resolve ESM .js specifiers to TypeScript sources', () => {
+    const content = [
+      "import { createOctokit } from './github-api.js';",
+      "export * from '../shared/types.js';",
+      "const utils = await import('../shared/utils.js');",
+      "import * as core from '@actions/core';",
+    ].join('\n');
+    expect(findImports('src/sdk/index.ts', content, new Set(FILES))).toEqual([
+      'src/sdk/github-api.ts',
+      'src/shared/types.ts',
+      'src/shared/utils.js',
+    ]);
+  });
+
+  it('should resolve directory imports to index files', () => {
+    const content = "import { createOctokit } from './sdk';";
+    expect(findImports('src/index.ts', content, new Set(FILES))).toEqual(['src/sdk/index.ts']);
+  });
+});
+
+describe('formatRetrievalContext', () => {
+  const context: RetrievalContext = {
+    tree: ['src/a.ts', 'src/b.ts'],
+    treeTruncated: false,
+    files: [
+      { path: 'src/a.ts', content: 'export const a = 1;\n', truncated: false, reason: 'planned' },
+      { path: 'src/b.ts', content: 'export const b = 2;\n', truncated: false, reason: 'import-neighbour' },
+    ],
+    omitted: [],
+  };
+
+  it('should include the tree and numbered file contents', () => {
+    const section = formatRetrievalContext(context);
+    expect(section).toContain('## Repository File Tree');
+    expect(section).toContain('### src/a.ts (planned)');
+    expect(section).toContain('   1 | export const a = 1;');
+  });
+
+  it('should show the agent\'s changes in place of the checkout content', () => {
+    const section = formatRetrievalContext(
+      context,
+      new Map<string, string | null>([
+        ['src/a.ts', 'export const a = 42;\n'],
+        ['src/b.ts', null],
+        ['src/c.ts', 'export const c = 3;\n'],
+      ])
+    );
+    expect(section).toContain('export const a = 42;');
+    expect(section).not.toContain('export const a = 1;');
+    expect(section).toContain('src/b.ts (import-neighbour) - deleted by your changes');
+    expect(section).toContain('### src/c.ts (written by your changes)');
+  });
+});
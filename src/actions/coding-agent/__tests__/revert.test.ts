@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import { planRevert, createRevertBranch, getRevertBranch, parseRevertPullRequest } from '../revert.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+/** Fake API serving file contents (and executable files) per commit */
+function createOctokit(
+  snapshots: Record<string, Record<string, string>>,
+  files: Array<{ filename: string; previous_filename?: string }>,
+  executables: Record<string, string[]> = {}
+) {
+  const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+  const calls: Record<string, any[]> = { createTree: [], createRef: [], updateRef: [] };
+
+  const octokit = {
+    rest: {
+      repos: {
+        compareCommits: async () => ({ data: { merge_base_commit: { sha: 'before' }, files } }),
+        getContent: async ({ path, ref }: any) => {
+          const content = snapshots[ref]?.[path];
+          if (content === undefined) throw notFound();
+          // The contents API omits files over 1MB
+          if (content === 'HUGE') return { data: { type: 'file', encoding: 'none', size: 2_000_000, content: '' } };
+          return { data: { type: 'file', encoding: 'base64', size: content.length, content: Buffer.from(content).toString('base64') } };
+        },
+      },
+      git: {
+        getTree: async ({ tree_sha }: any) => ({
+          data: {
+            truncated: false,
+            tree: Object.keys(snapshots[tree_sha] ?? {}).map((path) => ({
+              path,
+              type: 'blob',
+              mode: executables[tree_sha]?.includes(path) ? '100755' : '100644',
+            })),
+          },
+        }),
+        getRef: async () => ({ data: { object: { sha: 'main' } } }),
+        getCommit: async () => ({ data: { tree: { sha: 'main-tree' } } }),
+        createBlob: async ({ content }: any) => ({ data: { sha: `blob:${content}` } }),
+        createTree: async (args: any) => {
+          calls.createTree!.push(args);
+          return { data: { sha: 'tree' } };
+        },
+        createCommit: async () => ({ data: { sha: 'revert-sha' } }),
+        createRef: async (args: any) => {
+          calls.createRef!.push(args);
+          throw Object.assign(new Error('Reference already exists'), { status: 422 });
+        },
+        updateRef: async (args: any) => {
+          calls.updateRef!.push(args);
+          return { data: {} };
+        },
+      },
+    },
+  } as any;
+  return { octokit, calls };
+}
+
+const target = { number: 5, baseBranch: 'main', baseSha: 'base', headSha: 'after' };
+
+describe('planRevert', () => {
+  it('should undo the PR while keeping later changes to the same files', async () => {
+    const { octokit } = createOctokit(
+      {
+        before: { 'src/a.ts': 'one\ntwo\nthree\nfour\nfive' },
+        after: { 'src/a.ts': 'one\nTWO\nthree\nfour\nfive', 'src/new.ts': 'new' },
+        main: { 'src/a.ts': 'one\nTWO\nthree\nfour\nFIVE', 'src/new.ts': 'new' },
+      },
+      [{ filename: 'src/a.ts' }, { filename: 'src/new.ts' }]
+    );
+
+    const plan = await planRevert(octokit, 'o', 'r', target);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.reverted.get('src/a.ts')).toBe('one\ntwo\nthree\nfour\nFIVE');
+    expect(plan.reverted.get('src/new.ts')).toBeNull();
+  });
+
+  it('should restore the old path of a renamed file', async () => {
+    const { octokit } = createOctokit(
+      {
+        before: { 'old.ts': 'x' },
+        after: { 'new.ts': 'x' },
+        main: { 'new.ts': 'x' },
+      },
+      [{ filename: 'new.ts', previous_filename: 'old.ts' }]
+    );
+
+    const plan = await planRevert(octokit, 'o', 'r', target);
+    expect(plan.reverted.get('new.ts')).toBeNull();
+    expect(plan.reverted.get('old.ts')).toBe('x');
+  });
+
+  it('should report files whose later changes overlap the PR', async () => {
+    const { octokit } = createOctokit(
+      {
+        before: { 'a.ts': 'value = 1' },
+        after: { 'a.ts': 'value = 2' },
+        main: { 'a.ts': 'value = 3' },
+      },
+      [{ filename: 'a.ts' }]
+    );
+
+    const plan = await planRevert(octokit, 'o', 'r', target);
+    expect(plan.conflicts).toEqual(['a.ts']);
+    expect(plan.reverted.size).toBe(0);
+  });
+
+  it('should restore the mode a file had before the PR', async () => {
+    const { octokit } = createOctokit(
+      {
+        before: { 'run.sh': 'echo 1' },
+        after: { 'run.sh': 'echo 2' },
+        main: { 'run.sh': 'echo 2' },
+      },
+      [{ filename: 'run.sh' }],
+      { before: ['run.sh'] }
+    );
+
+    const plan = await planRevert(octokit, 'o', 'r', target);
+    expect(plan.reverted.get('run.sh')).toBe('echo 1');
+    expect(plan.modes.get('run.sh')).toBe('100755');
+  });
+
+  it('should refuse files the API returns without content', async () => {
+    const { octokit } = createOctokit(
+      {
+        before: { 'data.json': 'HUGE' },
+        after: { 'data.json': 'HUGE' },
+        main: { 'data.json': 'HUGE' },
+      },
+      [{ filename: 'data.json' }]
+    );
+
+    const plan = await planRevert(octokit, 'o', 'r', target);
+    expect(plan.unmergeable).toEqual([{ path: 'data.json', reason: 'data.json is too large to merge automatically' }]);
+    expect(plan.reverted.size).toBe(0);
+  });
+});
+
+describe('parseRevertPullRequest', () => {
+  it('should read the revert PR from the reverted-changes comment', () => {
+    expect(parseRevertPullRequest('## ⏪ Agent Changes Reverted\n\n#5 was merged but is being reverted by #12.')).toBe(12);
+    expect(parseRevertPullRequest('## ⏪ Agent Changes Reverted')).toBeNull();
+  });
+});
+
+describe('createRevertBranch', () => {
+  it('should commit on top of the base branch and replace a stale revert branch', async () => {
+    const { octokit, calls } = createOctokit({}, []);
+    const plan = {
+      targetSha: 'main',
+      reverted: new Map<string, string | null>([['a.ts', 'old'], ['b.ts', null], ['run.sh', 'echo 1']]),
+      modes: new Map([['run.sh', '100755' as const]]),
+      conflicts: [],
+      unmergeable: [],
+    };
+
+    const sha = await createRevertBranch(octokit, 'o', 'r', plan, getRevertBranch(5), 'Revert');
+    expect(sha).toBe('revert-sha');
+    expect(calls.createTree![0].tree).toEqual([
+      { path: 'a.ts', mode: '100644', type: 'blob', sha: 'blob:old' },
+      { path: 'b.ts', mode: '100644', type: 'blob', sha: null },
+      { path: 'run.sh', mode: '100755', type: 'blob', sha: 'blob:echo 1' },
+    ]);
+    expect(calls.updateRef![0]).toMatchObject({ ref: 'heads/agent/revert-pr-5', sha: 'revert-sha', force: true });
+  });
+});
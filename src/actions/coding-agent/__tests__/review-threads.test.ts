@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  loadReviewThreads,
+  formatReviewThreads,
+  parseThreadOutcomes,
+  respondToReviewThreads,
+  type ReviewThread,
+} from '../review-threads.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const threads: ReviewThread[] = [
+  { key: 'T1', id: 'thread-1', path: 'src/a.ts', line: 10, isOutdated: false, comments: [{ id: 101, author: 'alice', body: 'Handle null here' }] },
+  { key: 'T2', id: 'thread-2', path: 'src/b.ts', line: null, isOutdated: true, comments: [{ id: 201, author: 'bob', body: 'Rename this' }] },
+];
+
+describe('loadReviewThreads', () => {
+  it('should keep only unresolved threads and key them in order', async () => {
+    const comment = (id: number, body: string) => ({ databaseId: id, body, author: { login: 'alice' } });
+    const octokit = {
+      graphql: async () => ({
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              nodes: [
+                { id: 'a', isResolved: true, isOutdated: false, path: 'x.ts', line: 1, originalLine: 1, comments: { nodes: [comment(1, 'done')] } },
+                { id: 'b', isResolved: false, isOutdated: true, path: 'y.ts', line: null, originalLine: 7, comments: { nodes: [comment(2, 'fix')] } },
+              ],
+            },
+          },
+        },
+      }),
+    } as any;
+
+    expect(await loadReviewThreads(octokit, 'o', 'r', 5)).toEqual([
+      { key: 'T1', id: 'b', path: 'y.ts', line: 7, isOutdated: true, comments: [{ id: 2, author: 'alice', body: 'fix' }] },
+    ]);
+  });
+});
+
+describe('thread prompts', () => {
+  it('should show each thread with its key and location', () => {
+    const section = formatReviewThreads(threads);
+    expect(section).toContain('#### [T1] src/a.ts:10\n\n**@alice:** Handle null here');
+    expect(section).toContain('#### [T2] src/b.ts (outdated)');
+  });
+
+  it('should drop outcomes for unknown threads or without a reply', () => {
+    const outcomes = parseThreadOutcomes(
+      [
+        { id: 'T1', status: 'addressed', reply: ' Added a null check ' },
+        { id: 'T9', status: 'addressed', reply: 'x' },
+        { id: 'T2', status: 'ignored', reply: 'x' },
+        { id: 'T2', status: 'declined', reply: '' },
+      ],
+      threads
+    );
+    expect(outcomes).toEqual([{ key: 'T1', status: 'addressed', reply: 'Added a null check' }]);
+    expect(parseThreadOutcomes('nope', threads)).toEqual([]);
+  });
+});
+
+describe('respondToReviewThreads', () => {
+  it('should reply to every reported thread and resolve only addressed ones', async () => {
+    const replies: any[] = [];
+    const resolved: any[] = [];
+    const octokit = {
+      rest: { pulls: { createReplyForReviewComment: async (args: any) => replies.push(args) } },
+      graphql: async (_query: string, vars: any) => resolved.push(vars.threadId),
+    } as any;
+
+    const reports = await respondToReviewThreads(
+      octokit,
+      'o',
+      'r',
+      5,
+      threads,
+      new Map([
+        ['T1', { key: 'T1', status: 'addressed' as const, reply: 'Added a null check' }],
+        ['T2', { key: 'T2', status: 'declined' as const, reply: 'The name matches the API' }],
+      ]),
+      'abcdef1234'
+    );
+
+    expect(replies.map((r) => [r.comment_id, r.body.split('\n')[0]])).toEqual([
+      [101, '✅ Addressed in abcdef1: Added a null check'],
+      [201, '💬 Not changed: The name matches the API'],
+    ]);
+    expect(resolved).toEqual(['thread-1']);
+    expect(reports.map((r) => r.resolved)).toEqual([true, false]);
+  });
+});
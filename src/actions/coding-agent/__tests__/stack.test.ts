@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import {
+  parseParentIssue,
+  parseSubIssueList,
+  findStackBase,
+  formatStackSection,
+  upsertStackSection,
+  rebaseOnto,
+  type SubIssueStack,
+} from '../stack.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const stack: SubIssueStack = { parentIssue: 10, issues: [11, 12, 13] };
+
+describe('sub-issue parsing', () => {
+  it('should read the parent from the sub-issue footer', () => {
+    expect(parseParentIssue('Do the thing\n\n---\n*Sub-issue of #10*')).toBe(10);
+    expect(parseParentIssue('Mentions #10 only')).toBeNull();
+  });
+
+  it('should read the sub-issues in the order the parent lists them', () => {
+    const comment = '## 📋 Sub-Issues Created\n\n- [ ] #13 - Later\n- [x] #11 - First\n\nSee #99';
+    expect(parseSubIssueList(comment)).toEqual([13, 11]);
+  });
+});
+
+describe('findStackBase', () => {
+  /** Fake API: PRs keyed by head branch, issue states by number */
+  function createOctokit(prs: Record<string, any[]>, issueStates: Record<number, string>) {
+    return {
+      rest: {
+        pulls: { list: async ({ head }: any) => ({ data: prs[head.split(':')[1]] ?? [] }) },
+        issues: { get: async ({ issue_number }: any) => ({ data: { state: issueStates[issue_number] ?? 'open' } }) },
+      },
+    } as any;
+  }
+
+  it('should build on the nearest lower sibling with an open PR', async () => {
+    const octokit = createOctokit({ 'agent/issue-11': [{ number: 21, state: 'open' }] }, {});
+    expect(await findStackBase(octokit, 'o', 'r', stack, 12)).toEqual({ branch: 'agent/issue-11', prNumber: 21 });
+  });
+
+  it('should skip merged siblings and wait for unimplemented ones', async () => {
+    const merged = createOctokit({ 'agent/issue-12': [{ number: 22, state: 'closed', merged_at: '2026-01-01' }] }, { 11: 'closed' });
+    expect(await findStackBase(merged, 'o', 'r', stack, 13)).toEqual({});
+
+    const waiting = createOctokit({}, { 11: 'open' });
+    expect(await findStackBase(waiting, 'o', 'r', stack, 12)).toEqual({ waitingFor: 11 });
+  });
+
+  it('should start the bottom of the stack on the default branch', async () => {
+    expect(await findStackBase(createOctokit({}, {}), 'o', 'r', stack, 11)).toEqual({});
+  });
+});
+
+describe('stack section', () => {
+  const prs = new Map([
+    [11, { number: 21, state: 'merged' as const }],
+    [12, { number: 22, state: 'open' as const }],
+  ]);
+
+  it('should link every PR in the chain', () => {
+    const section = formatStackSection(stack, prs, 22);
+    expect(section).toContain('1. #11 → #21 ✅ merged');
+    expect(section).toContain('2. #12 → #22 👈 this PR');
+    expect(section).toContain('3. #13 (not started)');
+  });
+
+  it('should replace an existing section instead of appending another', () => {
+    const once = upsertStackSection('Body', formatStackSection(stack, prs, 22));
+    const twice = upsertStackSection(once, formatStackSection(stack, new Map(), 22));
+    expect(twice.match(/agent-stack -->/g)).toHaveLength(2);
+    expect(twice).toContain('1. #11 (not started)');
+    expect(twice.startsWith('Body\n\n')).toBe(true);
+  });
+});
+
+describe('rebaseOnto', () => {
+  let repo: string;
+  const originalWorkspace = process.env.GITHUB_WORKSPACE;
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repo,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    }).trim();
+  const commit = (file: string, content: string) => {
+    fs.writeFileSync(path.join(repo, file), content);
+    git('add', '.');
+    git('commit', '-q', '-m', `write ${file}`);
+    return git('rev-parse', 'HEAD');
+  };
+
+  beforeAll(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'stack-test-'));
+    git('init', '-q');
+    process.env.GITHUB_WORKSPACE = repo;
+  });
+
+  afterAll(() => {
+    if (originalWorkspace === undefined) delete process.env.GITHUB_WORKSPACE;
+    else process.env.GITHUB_WORKSPACE = originalWorkspace;
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should replay only the upper branch onto a squash merge of the lower one', () => {
+    const root = commit('base.txt', 'base\n');
+    const lowerTip = commit('lower.txt', 'lower\n');
+    const upperTip = commit('upper.txt', 'upper\n');
+
+    // Squash-merge the lower branch onto main
+    git('checkout', '-q', '--detach', root);
+    fs.writeFileSync(path.join(repo, 'lower.txt'), 'lower\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'squash lower');
+    const main = git('rev-parse', 'HEAD');
+
+    const rebased = rebaseOnto(upperTip, lowerTip, main);
+    expect(rebased).not.toBeNull();
+    expect(git('rev-parse', `${rebased}~1`)).toBe(main);
+    expect(git('show', `${rebased}:upper.txt`)).toBe('upper');
+  });
+
+  it('should abort and return null on conflicts', () => {
+    const root = commit('shared.txt', 'one\n');
+    const lowerTip = commit('shared.txt', 'two\n');
+    const upperTip = commit('shared.txt', 'three\n');
+
+    git('checkout', '-q', '--detach', root);
+    const main = commit('shared.txt', 'other\n');
+
+    expect(rebaseOnto(upperTip, lowerTip, main)).toBeNull();
+    expect(fs.existsSync(path.join(repo, '.git', 'rebase-merge'))).toBe(false);
+  });
+});
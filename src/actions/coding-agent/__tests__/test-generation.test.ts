@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  detectTestFramework,
+  getTestCommand,
+  isTestableSource,
+  findExportedFunctions,
+  findUntestedFunctions,
+  findTestFilesFor,
+  getTestFilePath,
+  findTestTitles,
+  checkExtendedTestFile,
+} from '../test-generation.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+describe('detectTestFramework', () => {
+  it('should read the framework from dependencies, then the test script', () => {
+    expect(detectTestFramework(JSON.stringify({ devDependencies: { vitest: '^1.0.0', jest: '^29' } }))).toBe('vitest');
+    expect(detectTestFramework(JSON.stringify({ scripts: { test: 'mocha --recursive' } }))).toBe('mocha');
+    expect(detectTestFramework(JSON.stringify({ scripts: { test: 'node test.js' } }))).toBeNull();
+    expect(detectTestFramework('not json')).toBeNull();
+  });
+
+  it('should run a single test file', () => {
+    expect(getTestCommand('jest', 'src/a.test.ts')).toBe("npx jest --runTestsByPath 'src/a.test.ts'");
+  });
+
+  it('should quote test paths so they cannot inject shell commands', () => {
+    expect(getTestCommand('vitest', 'src/$(curl x)`id`".test.ts')).toBe("npx vitest run 'src/$(curl x)`id`\".test.ts'");
+    expect(getTestCommand('mocha', "src/it's.test.ts")).toBe("npx mocha 'src/it'\\''s.test.ts'");
+    expect(getTestCommand('mocha', '--require=evil.js')).toBe("npx mocha './--require=evil.js'");
+  });
+});
+
+describe('extending existing test files', () => {
+  const existing = [
+    "describe('parse', () => {",
+    "  it('should parse numbers', () => {",
+    '    expect(parse("1")).toBe(1);',
+    '  });',
+    '',
+    '  test.skip(`should reject "junk"`, () => {});',
+    '});',
+  ].join('\n');
+
+  it('should list the titles of it/test cases', () => {
+    expect(findTestTitles(existing)).toEqual(['should parse numbers', 'should reject "junk"']);
+  });
+
+  it('should accept a file that only adds tests', () => {
+    const updated = existing.replace('});\n', "});\n\n  it('should parse negatives', () => {});\n");
+    expect(checkExtendedTestFile('a.test.ts', existing, updated, 50)).toBeNull();
+  });
+
+  it('should reject a file that drops an existing test', () => {
+    const updated = existing.replace("it('should parse numbers'", "it('should load'");
+    expect(checkExtendedTestFile('a.test.ts', existing, updated, 50)).toBe('it drops 1 existing test(s): "should parse numbers"');
+  });
+});
+
+describe('untested functions', () => {
+  const source = [
+    'export function parse(input: string) {}',
+    'export async function load() {}',
+    'export const format = (value: number) => String(value);',
+    'export const LIMIT = 10;',
+    'export class Client {}',
+    'function internal() {}',
+  ].join('\n');
+
+  it('should list exported functions and classes', () => {
+    expect(findExportedFunctions(source)).toEqual(['parse', 'load', 'format', 'Client']);
+  });
+
+  it('should skip functions an existing test mentions', () => {
+    const tests = ["import { parse } from '../a.js';\ndescribe('parse', () => {});"];
+    expect(findUntestedFunctions(source, tests)).toEqual(['load', 'format', 'Client']);
+  });
+
+  it('should only generate tests for source modules', () => {
+    expect(isTestableSource('src/a.ts')).toBe(true);
+    expect(isTestableSource('src/types.d.ts')).toBe(false);
+    expect(isTestableSource('src/__tests__/a.test.ts')).toBe(false);
+    expect(isTestableSource('README.md')).toBe(false);
+  });
+});
+
+describe('test file placement', () => {
+  const repoFiles = ['src/a.ts', 'src/b.ts', 'src/__tests__/a.test.ts', 'lib/c.js', 'lib/c.spec.js'];
+
+  it('should find tests next to the module or in __tests__', () => {
+    expect(findTestFilesFor('src/a.ts', repoFiles)).toEqual(['src/__tests__/a.test.ts']);
+    expect(findTestFilesFor('lib/c.js', repoFiles)).toEqual(['lib/c.spec.js']);
+    expect(findTestFilesFor('src/b.ts', repoFiles)).toEqual([]);
+  });
+
+  it('should extend an existing test file or follow the repo convention', () => {
+    expect(getTestFilePath('src/a.ts', repoFiles)).toBe('src/__tests__/a.test.ts');
+    expect(getTestFilePath('src/b.ts', repoFiles)).toBe('src/__tests__/b.test.ts');
+    expect(getTestFilePath('src/b.ts', ['src/b.ts'])).toBe('src/b.test.ts');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { createRepositoryTools, listDirectory, normalizeToolPath } from '../tools.js';
+import type { VerifiableFile } from '../verification.js';
+
+function createTools(changes: VerifiableFile[], maxToolCalls = 10, allowedCommands: string[] = []) {
+  const { tools, usage } = createRepositoryTools({
+    maxToolCalls,
+    allowedCommands,
+    commandTimeoutMs: 1000,
+    getChanges: () => changes,
+  });
+  const call = (name: string, args: Record<string, unknown>) => {
+    const tool = tools.find((t) => t.name === name);
+    if (!tool) throw new Error(`No tool ${name}`);
+    return tool.handler(args) as string;
+  };
+  return { tools, usage, call };
+}
+
+describe('listDirectory', () => {
+  it('should list immediate children with directories marked', () => {
+    const files = ['README.md', 'src/index.ts', 'src/sdk/a.ts', 'src/sdk/b.ts', '.github/workflows/ci.yml'];
+    expect(listDirectory(files, '')).toEqual(['.github/', 'README.md', 'src/']);
+    expect(listDirectory(files, 'src')).toEqual(['index.ts', 'sdk/']);
+  });
+});
+
+describe('normalizeToolPath', () => {
+  it('should normalize relative paths', () => {
+    expect(normalizeToolPath('./src/index.ts')).toBe('src/index.ts');
+    expect(normalizeToolPath('.')).toBe('');
+    expect(normalizeToolPath('.github/')).toBe('.github');
+  });
+
+  it('should reject paths outside the repository', () => {
+    expect(() => normalizeToolPath('../secrets')).toThrow();
+    expect(() => normalizeToolPath('/etc/passwd')).toThrow();
+    expect(() => normalizeToolPath('src/../../x')).toThrow();
+  });
+});
+
+describe('createRepositoryTools', () => {
+  const changes: VerifiableFile[] = [
+    { path: 'agent/new.ts', content: 'line 1\nline 2\nline 3', operation: 'create' },
+  ];
+
+  it('should only expose run_tests when commands are allowed', () => {
+    expect(createTools([]).tools.map((t) => t.name)).toEqual(['list_dir', 'read_file', 'grep', 'git_log']);
+    expect(createTools([], 10, ['npm test']).tools.map((t) => t.name)).toContain('run_tests');
+  });
+
+  it('should read the agent\'s own changes with line numbers and paging', () => {
+    const { call } = createTools(changes);
+    const result = call('read_file', { path: 'agent/new.ts', start_line: 2, end_line: 2 });
+    expect(result).toContain('2 | line 2');
+    expect(result).not.toContain('line 1');
+    expect(result).toContain('start_line=3');
+  });
+
+  it('should report errors to the model instead of throwing', () => {
+    const { call } = createTools(changes);
+    expect(call('read_file', { path: '../outside' })).toMatch(/^Error: Path must be relative/);
+    expect(call('read_file', {})).toMatch(/^Error: Missing required argument: path/);
+  });
+
+  it('should refuse commands that are not allow-listed', () => {
+    const { call } = createTools(changes, 10, ['npm test']);
+    expect(call('run_tests', { command: 'curl http://example.com' })).toContain('Command not allowed');
+  });
+
+  it('should stop serving calls once the budget is spent', () => {
+    const { call, usage } = createTools(changes, 2);
+    call('read_file', { path: 'agent/new.ts' });
+    call('read_file', { path: 'agent/new.ts' });
+    expect(call('read_file', { path: 'agent/new.ts' })).toContain('Tool budget exhausted');
+    expect(usage).toEqual({ calls: 2, rejected: 1 });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Task Budgets
+ *
+ * Caps what a single coding task may spend (generation iterations,
+ * wall-clock time, model requests and estimated tokens) and what the agent
+ * may spend per repository per day. The SDK does not report token usage,
+ * so tokens are estimated from prompt and response lengths. The daily
+ * totals live in a `.agent-budget.json` file on a dedicated branch.
+ */
+
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** Branch holding the repository's daily spend */
+export const BUDGET_BRANCH = 'agent-budget/daily';
+
+/** File holding the daily spend on the budget branch */
+const BUDGET_FILE = '.agent-budget.json';
+
+/** Rough characters-per-token ratio used for estimates */
+const CHARS_PER_TOKEN = 4;
+
+/** Limits for a task; 0 means unlimited (except iterations) */
+export interface BudgetLimits {
+  /** Generation iterations per generation run (per candidate) */
+  iterations: number;
+  /** Wall-clock minutes per task */
+  minutes: number;
+  /** Model requests per task */
+  requests: number;
+  /** Estimated tokens per task */
+  tokens: number;
+  /** Model requests per repository per UTC day */
+  dailyRequests: number;
+  /** Estimated tokens per repository per UTC day */
+  dailyTokens: number;
+}
+
+/** A limit that stopped (or would stop) the task */
+export type BudgetLimit = 'iterations' | 'minutes' | 'requests' | 'tokens' | 'daily-requests' | 'daily-tokens';
+
+/** Requests and estimated tokens spent */
+export interface BudgetUsage {
+  requests: number;
+  tokens: number;
+}
+
+/** Snapshot of a task's spend for comments and PR bodies */
+export interface BudgetReport {
+  limits: BudgetLimits;
+  iterations: number;
+  /** Generation runs (candidates) the iterations were spread over */
+  runs: number;
+  requests: number;
+  tokens: number;
+  elapsedMinutes: number;
+  /** Repository spend for the day, including this task */
+  daily: BudgetUsage;
+  /** Limit the task ran into, if any */
+  exhausted: BudgetLimit | null;
+}
+
+/** Daily spend as stored on the budget branch */
+interface DailyLedger extends BudgetUsage {
+  /** UTC day (YYYY-MM-DD) the totals belong to */
+  date: string;
+}
+
+/**
+ * Estimates the tokens in a prompt or response
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Gets the UTC day a spend is booked on
+ */
+export function getBudgetDate(now: Date = new Date()): string {
+  return now.toISOString().substring(0, 10);
+}
+
+/**
+ * Tracks a task's spend against its limits
+ *
+ * Limits are checked before each request, so the request that crosses a
+ * limit still completes; the task stops at the next check.
+ */
+export class TaskBudget {
+  private iterationCount = 0;
+  private runIterationCount = 0;
+  private runCount = 0;
+  private requestCount = 0;
+  private tokenCount = 0;
+  private readonly startedAt: number;
+
+  constructor(
+    readonly limits: BudgetLimits,
+    /** Repository spend for the day before this task started */
+    private readonly dailyUsage: BudgetUsage = { requests: 0, tokens: 0 },
+    private readonly now: () => number = Date.now
+  ) {
+    this.startedAt = now();
+  }
+
+  /** Spend of this task alone */
+  get usage(): BudgetUsage {
+    return { requests: this.requestCount, tokens: this.tokenCount };
+  }
+
+  /** Iterations started in the current run */
+  get runIterations(): number {
+    return this.runIterationCount;
+  }
+
+  /**
+   * Starts a generation run; the iteration limit applies to each run
+   */
+  startRun(): void {
+    this.runCount++;
+    this.runIterationCount = 0;
+  }
+
+  /**
+   * Counts a generation iteration
+   */
+  recordIteration(): void {
+    this.iterationCount++;
+    this.runIterationCount++;
+  }
+
+  /**
+   * Counts a model request and its estimated tokens
+   */
+  recordRequest(prompt: string, response: string): void {
+    this.requestCount++;
+    this.tokenCount += estimateTokens(prompt) + estimateTokens(response);
+  }
+
+  /**
+   * Finds the first limit that leaves no room for another model request
+   */
+  requestLimit(): BudgetLimit | null {
+    const { limits } = this;
+    if (limits.minutes > 0 && this.elapsedMinutes() >= limits.minutes) return 'minutes';
+    if (limits.requests > 0 && this.requestCount >= limits.requests) return 'requests';
+    if (limits.tokens > 0 && this.tokenCount >= limits.tokens) return 'tokens';
+    if (limits.dailyRequests > 0 && this.dailyUsage.requests + this.requestCount >= limits.dailyRequests) {
+      return 'daily-requests';
+    }
+    if (limits.dailyTokens > 0 && this.dailyUsage.tokens + this.tokenCount >= limits.dailyTokens) {
+      return 'daily-tokens';
+    }
+    return null;
+  }
+
+  /**
+   * Finds the first limit that leaves no room for another iteration
+   */
+  iterationLimit(): BudgetLimit | null {
+    if (this.runIterationCount >= this.limits.iterations) return 'iterations';
+    return this.requestLimit();
+  }
+
+  /**
+   * Snapshots the spend
+   *
+   * @param exhausted - Limit the task stopped at, if any
+   */
+  report(exhausted: BudgetLimit | null = null): BudgetReport {
+    return {
+      limits: this.limits,
+      iterations: this.iterationCount,
+      runs: Math.max(1, this.runCount),
+      requests: this.requestCount,
+      tokens: this.tokenCount,
+      elapsedMinutes: this.elapsedMinutes(),
+      daily: {
+        requests: this.dailyUsage.requests + this.requestCount,
+        tokens: this.dailyUsage.tokens + this.tokenCount,
+      },
+      exhausted,
+    };
+  }
+
+  private elapsedMinutes(): number {
+    return (this.now() - this.startedAt) / 60000;
+  }
+}
+
+/**
+ * Describes a limit for comments and logs
+ */
+export function describeBudgetLimit(limit: BudgetLimit): string {
+  switch (limit) {
+    case 'iterations':
+      return 'iteration limit';
+    case 'minutes':
+      return 'time limit';
+    case 'requests':
+      return 'per-task request limit';
+    case 'tokens':
+      return 'per-task token limit';
+    case 'daily-requests':
+      return 'daily request limit for this repository';
+    case 'daily-tokens':
+      return 'daily token limit for this repository';
+  }
+}
+
+/**
+ * Renders the spend as a collapsible table
+ */
+export function formatBudgetSummary(report: BudgetReport): string {
+  const { limits } = report;
+  const of = (limit: number) => (limit > 0 ? ` / ${limit.toLocaleString('en-US')}` : '');
+
+  let summary = `<details>\n<summary>💰 Spend</summary>\n\n`;
+  summary += `| | Used |\n|---|---|\n`;
+  summary += report.runs > 1
+    ? `| Iterations | ${report.iterations} across ${report.runs} candidates${of(limits.iterations)} each |\n`
+    : `| Iterations | ${report.iterations}${of(limits.iterations)} |\n`;
+  summary += `| Model requests | ${report.requests}${of(limits.requests)} |\n`;
+  summary += `| Estimated tokens | ${report.tokens.toLocaleString('en-US')}${of(limits.tokens)} |\n`;
+  summary += `| Minutes | ${report.elapsedMinutes.toFixed(1)}${of(limits.minutes)} |\n`;
+  if (limits.dailyRequests > 0 || limits.dailyTokens > 0) {
+    summary += `| Repository today (requests) | ${report.daily.requests}${of(limits.dailyRequests)} |\n`;
+    summary += `| Repository today (tokens) | ${report.daily.tokens.toLocaleString('en-US')}${of(limits.dailyTokens)} |\n`;
+  }
+  if (report.exhausted) {
+    summary += `\nStopped at the ${describeBudgetLimit(report.exhausted)}.\n`;
+  }
+  summary += `\n</details>\n`;
+  return summary;
+}
+
+/**
+ * Loads the repository's spend for the day
+ *
+ * @returns The day's spend, or zero if nothing was recorded today
+ */
+export async function loadDailyUsage(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  date: string = getBudgetDate()
+): Promise<BudgetUsage> {
+  const ledger = await readLedger(octokit, owner, repo);
+  return ledger && ledger.date === date ? { requests: ledger.requests, tokens: ledger.tokens } : { requests: 0, tokens: 0 };
+}
+
+/**
+ * Adds a task's spend to the repository's daily totals
+ *
+ * Concurrent runs may race; the ledger is re-read right before writing,
+ * so at worst a few requests go uncounted.
+ */
+export async function recordDailyUsage(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  usage: BudgetUsage,
+  date: string = getBudgetDate()
+): Promise<void> {
+  if (usage.requests === 0) return;
+
+  try {
+    const current = await readLedger(octokit, owner, repo);
+    const base = current && current.date === date ? current : { date, requests: 0, tokens: 0 };
+    const ledger: DailyLedger = {
+      date,
+      requests: base.requests + usage.requests,
+      tokens: base.tokens + usage.tokens,
+    };
+
+    const { data: blob } = await octokit.rest.git.createBlob({
+      owner,
+      repo,
+      content: JSON.stringify(ledger, null, 2),
+      encoding: 'utf-8',
+    });
+    const { data: tree } = await octokit.rest.git.createTree({
+      owner,
+      repo,
+      tree: [{ path: BUDGET_FILE, mode: '100644', type: 'blob', sha: blob.sha }],
+    });
+    // Only the latest totals matter, so every update is a fresh root commit
+    const { data: commit } = await octokit.rest.git.createCommit({
+      owner,
+      repo,
+      message: `Agent spend for ${date}: ${ledger.requests} request(s)`,
+      tree: tree.sha,
+      parents: [],
+    });
+
+    try {
+      await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${BUDGET_BRANCH}`, sha: commit.sha });
+    } catch (error) {
+      if ((error as { status?: number })?.status !== 422) throw error;
+      await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${BUDGET_BRANCH}`, sha: commit.sha, force: true });
+    }
+    core.info(`Recorded spend for ${date}: ${ledger.requests} request(s), ~${ledger.tokens} tokens`);
+  } catch (error) {
+    core.warning(`Failed to record daily spend: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function readLedger(octokit: Octokit, owner: string, repo: string): Promise<DailyLedger | null> {
+  try {
+    const { data: ref } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${BUDGET_BRANCH}` });
+    const { data: commit } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: ref.object.sha });
+    const { data: tree } = await octokit.rest.git.getTree({ owner, repo, tree_sha: commit.tree.sha });
+    const entry = tree.tree.find((e) => e.path === BUDGET_FILE);
+    if (!entry?.sha) return null;
+
+    const { data: blob } = await octokit.rest.git.getBlob({ owner, repo, file_sha: entry.sha });
+    const ledger = JSON.parse(Buffer.from(blob.content, 'base64').toString('utf-8')) as Partial<DailyLedger>;
+    if (typeof ledger.date !== 'string') return null;
+    return { date: ledger.date, requests: Number(ledger.requests) || 0, tokens: Number(ledger.tokens) || 0 };
+  } catch (error) {
+    if ((error as { status?: number })?.status !== 404) {
+      core.warning(`Failed to load daily spend: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Candidate Selection
+ *
+ * Scores independently generated change sets so the agent can push the
+ * best of several samples instead of trusting a single one. A candidate
+ * earns points for passing verification and finishing the task, and
+ * loses points for open self-review issues and for diff size; the
+ * scoring table is shown on the PR.
+ */
+
+import { measureDeletion } from './patch-applier.js';
+import type { FileChange } from './file-changes.js';
+
+/** Points for passing verification (half when no verify commands are configured) */
+const VERIFICATION_POINTS = 100;
+
+/** Points for a run the model finished */
+const COMPLETE_POINTS = 50;
+
+/** Points lost per open self-review issue */
+const REVIEW_ISSUE_PENALTY = 10;
+
+/** Changed lines that cost one point */
+const LINES_PER_POINT = 20;
+
+/** A generated change set, reduced to what scoring needs */
+export interface CandidateChanges {
+  files: FileChange[];
+  complete: boolean;
+  verification?: { passed: boolean };
+  /** Issues from the candidate's last self-review */
+  reviewIssues?: string[];
+  /** Policy violations disqualify a candidate while others remain */
+  policyViolations?: unknown[];
+}
+
+/** One row of the scoring table */
+export interface CandidateScore {
+  /** 1-based candidate number */
+  candidate: number;
+  model: string;
+  files: number;
+  linesChanged: number;
+  verification: 'passed' | 'failed' | 'skipped';
+  complete: boolean;
+  reviewIssues: number;
+  /** Disqualified (no files, or policy violations) */
+  disqualified: boolean;
+  score: number;
+}
+
+/**
+ * Assigns a model to each candidate, cycling through the configured models
+ */
+export function getCandidateModels(count: number, models: string[], defaultModel: string): string[] {
+  const pool = models.length > 0 ? models : [defaultModel];
+  return Array.from({ length: Math.max(1, count) }, (_, i) => pool[i % pool.length] ?? defaultModel);
+}
+
+/**
+ * Counts added plus removed lines, ignoring blank lines, moved lines,
+ * unchanged renames and binary files
+ *
+ * @param readOriginal - Reads a file's current content (null if it does not exist)
+ */
+export function countChangedLines(
+  files: CandidateChanges['files'],
+  readOriginal: (path: string) => string | null
+): number {
+  let total = 0;
+  for (const file of files) {
+    if (file.moveOnly || file.encoding === 'base64') continue;
+    const original = readOriginal(file.from ?? file.path) ?? '';
+    const updated = file.operation === 'delete' ? '' : file.content;
+    total += measureDeletion(original, updated).removedLines + measureDeletion(updated, original).removedLines;
+  }
+  return total;
+}
+
+/**
+ * Scores a candidate
+ */
+export function scoreCandidate(
+  candidate: number,
+  model: string,
+  changes: CandidateChanges,
+  linesChanged: number
+): CandidateScore {
+  const verification = !changes.verification ? 'skipped' : changes.verification.passed ? 'passed' : 'failed';
+  const reviewIssues = changes.reviewIssues?.length ?? 0;
+  const disqualified = changes.files.length === 0 || (changes.policyViolations?.length ?? 0) > 0;
+
+  let score = 0;
+  if (verification === 'passed') score += VERIFICATION_POINTS;
+  if (verification === 'skipped') score += VERIFICATION_POINTS / 2;
+  if (changes.complete) score += COMPLETE_POINTS;
+  score -= reviewIssues * REVIEW_ISSUE_PENALTY;
+  score -= Math.floor(linesChanged / LINES_PER_POINT);
+
+  return {
+    candidate,
+    model,
+    files: changes.files.length,
+    linesChanged,
+    verification,
+    complete: changes.complete,
+    reviewIssues,
+    disqualified,
+    score,
+  };
+}
+
+/**
+ * Picks the best candidate: qualified first, then highest score, then smallest diff
+ *
+ * @returns Index into `scores`
+ */
+export function selectBestCandidate(scores: CandidateScore[]): number {
+  let best = 0;
+  scores.forEach((score, index) => {
+    const current = scores[best];
+    if (!current || index === best) return;
+    if (score.disqualified !== current.disqualified) {
+      if (!score.disqualified) best = index;
+      return;
+    }
+    if (score.score > current.score || (score.score === current.score && score.linesChanged < current.linesChanged)) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+/**
+ * Renders the scoring table for the PR body
+ *
+ * @param heading - Markdown heading prefix (`##` for PR bodies, `###` in comments)
+ */
+export function formatCandidateTable(scores: CandidateScore[], selected: number, heading = '##'): string {
+  const verificationIcons = { passed: '✅', failed: '❌', skipped: '—' };
+
+  let table = `${heading} Candidates\n\n`;
+  table += `${scores.length} candidate implementations were generated; the highest-scoring one was pushed.\n\n`;
+  table += '| # | Model | Verification | Complete | Review issues | Lines changed | Score |\n';
+  table += '|---|-------|--------------|----------|---------------|---------------|-------|\n';
+  scores.forEach((s, index) => {
+    const marker = index === selected ? ' ✅' : '';
+    const score = s.disqualified ? 'disqualified' : String(s.score);
+    table += `| ${s.candidate}${marker} | ${s.model} | ${verificationIcons[s.verification]} | ${s.complete ? 'yes' : 'no'} | ` +
+      `${s.reviewIssues} | ${s.linesChanged} | ${score} |\n`;
+  });
+  return `${table}\n`;
+}
@@ -0,0 +1,199 @@
+/**
+ * Run Checkpoints
+ *
+ * Persists the state of a coding run (plan, accumulated changes,
+ * iteration, reasoning) to a WIP branch after each iteration, so a
+ * re-run on the same issue or PR resumes instead of starting over when
+ * the Actions job times out or the SDK dies. The branch holds a single
+ * `.agent-checkpoint.json` file and is deleted once the changes land.
+ */
+
+import { createHash } from 'crypto';
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** File holding the checkpoint on the WIP branch */
+const CHECKPOINT_FILE = '.agent-checkpoint.json';
+
+/** Bumped when the checkpoint format changes incompatibly */
+const CHECKPOINT_VERSION = 1;
+
+/** State saved after each iteration */
+export interface CheckpointState<TPlan, TFile> {
+  plan: TPlan;
+  files: TFile[];
+  iteration: number;
+  lastReasoning: string;
+  selfReviewIssues: string[];
+}
+
+/** Checkpoint as stored on the WIP branch */
+export interface Checkpoint<TPlan, TFile> extends CheckpointState<TPlan, TFile> {
+  version: number;
+  /** Hash of the task text; a changed task invalidates the checkpoint */
+  taskHash: string;
+  updatedAt: string;
+}
+
+/** Where a task's checkpoint lives */
+export interface CheckpointLocation {
+  owner: string;
+  repo: string;
+  /** Branch name without refs/heads/ */
+  branch: string;
+}
+
+/**
+ * Gets the WIP branch for an issue or PR task
+ */
+export function getCheckpointBranch(issueNumber?: number, prNumber?: number): string {
+  return prNumber ? `agent-wip/pr-${prNumber}` : `agent-wip/issue-${issueNumber ?? 0}`;
+}
+
+/**
+ * Hashes the task text so edits to the issue invalidate old checkpoints
+ */
+export function hashTask(text: string): string {
+  return createHash('sha256').update(text).digest('hex').substring(0, 16);
+}
+
+/**
+ * Loads a checkpoint for the task
+ *
+ * @returns The checkpoint, or null if none exists or it belongs to a different task text
+ */
+export async function loadCheckpoint<TPlan, TFile>(
+  octokit: Octokit,
+  location: CheckpointLocation,
+  taskHash: string
+): Promise<Checkpoint<TPlan, TFile> | null> {
+  const { owner, repo, branch } = location;
+
+  try {
+    const { data: ref } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    const { data: commit } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: ref.object.sha });
+    const { data: tree } = await octokit.rest.git.getTree({ owner, repo, tree_sha: commit.tree.sha });
+
+    const entry = tree.tree.find((e) => e.path === CHECKPOINT_FILE);
+    if (!entry?.sha) {
+      core.warning(`Checkpoint branch ${branch} has no ${CHECKPOINT_FILE}, ignoring`);
+      return null;
+    }
+
+    const { data: blob } = await octokit.rest.git.getBlob({ owner, repo, file_sha: entry.sha });
+    const checkpoint = JSON.parse(Buffer.from(blob.content, 'base64').toString('utf-8')) as Checkpoint<TPlan, TFile>;
+
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      core.info(`Ignoring checkpoint with version ${checkpoint.version}`);
+      return null;
+    }
+    if (checkpoint.taskHash !== taskHash) {
+      core.info('Task changed since the checkpoint was saved, starting fresh');
+      return null;
+    }
+
+    return checkpoint;
+  } catch (error) {
+    if ((error as { status?: number })?.status !== 404) {
+      core.warning(`Failed to load checkpoint: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return null;
+  }
+}
+
+/**
+ * Saves a checkpoint as a new commit on the WIP branch
+ *
+ * @returns True if the checkpoint was saved
+ */
+export async function saveCheckpoint<TPlan, TFile>(
+  octokit: Octokit,
+  location: CheckpointLocation,
+  taskHash: string,
+  state: CheckpointState<TPlan, TFile>
+): Promise<boolean> {
+  const { owner, repo, branch } = location;
+  const checkpoint: Checkpoint<TPlan, TFile> = {
+    ...state,
+    version: CHECKPOINT_VERSION,
+    taskHash,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    let parentSha: string | null = null;
+    try {
+      const { data: ref } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+      parentSha = ref.object.sha;
+    } catch {
+      // First checkpoint for this task
+    }
+
+    const { data: blob } = await octokit.rest.git.createBlob({
+      owner,
+      repo,
+      content: JSON.stringify(checkpoint, null, 2),
+      encoding: 'utf-8',
+    });
+    const { data: tree } = await octokit.rest.git.createTree({
+      owner,
+      repo,
+      tree: [{ path: CHECKPOINT_FILE, mode: '100644', type: 'blob', sha: blob.sha }],
+    });
+    const { data: commit } = await octokit.rest.git.createCommit({
+      owner,
+      repo,
+      message: `Checkpoint: iteration ${state.iteration}, ${state.files.length} file(s)`,
+      tree: tree.sha,
+      parents: parentSha ? [parentSha] : [],
+    });
+
+    if (parentSha) {
+      await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: commit.sha, force: true });
+    } else {
+      await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: commit.sha });
+    }
+
+    core.info(`Checkpoint saved to ${branch} (iteration ${state.iteration})`);
+    return true;
+  } catch (error) {
+    core.warning(`Failed to save checkpoint: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * Deletes the WIP branch once the run's changes have been pushed
+ */
+export async function deleteCheckpoint(octokit: Octokit, location: CheckpointLocation): Promise<void> {
+  const { owner, repo, branch } = location;
+  try {
+    await octokit.rest.git.deleteRef({ owner, repo, ref: `heads/${branch}` });
+    core.info(`Deleted checkpoint branch ${branch}`);
+  } catch (error) {
+    if ((error as { status?: number })?.status !== 404 && (error as { status?: number })?.status !== 422) {
+      core.warning(`Failed to delete checkpoint branch: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Describes a checkpoint for the pickup comment
+ */
+export function formatResumeState(checkpoint: Checkpoint<unknown, { path: string }>): string {
+  let text = `♻️ **Resuming from checkpoint** saved ${checkpoint.updatedAt}\n\n`;
+  text += `- Iterations completed: ${checkpoint.iteration}\n`;
+  text += `- Files in progress: ${checkpoint.files.length}\n`;
+  checkpoint.files.slice(0, 20).forEach((f) => {
+    text += `  - \`${f.path}\`\n`;
+  });
+  if (checkpoint.files.length > 20) {
+    text += `  - ...and ${checkpoint.files.length - 20} more\n`;
+  }
+  if (checkpoint.selfReviewIssues.length > 0) {
+    text += `- Open review issues: ${checkpoint.selfReviewIssues.length}\n`;
+  }
+  return text;
+}
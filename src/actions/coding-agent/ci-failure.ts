@@ -0,0 +1,187 @@
+/**
+ * CI Failure Autofix
+ *
+ * Turns a failed CI run on an agent PR into review feedback. The failing
+ * jobs' logs (or, for CI outside GitHub Actions, the check run output)
+ * are cut down to the section around the errors, so the model sees the
+ * compiler or test output rather than thousands of lines of setup.
+ */
+
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** One failed job or check */
+export interface CIFailure {
+  name: string;
+  url: string;
+  /** The error section of its log */
+  excerpt: string;
+}
+
+/** Conclusions that count as a failure worth fixing (cancelled runs are not) */
+const FAILED_CONCLUSIONS = ['failure', 'timed_out'];
+
+/** Failed jobs read per run; later ones usually fail for the same reason */
+const MAX_FAILED_JOBS = 3;
+
+/** Lines kept from each failed job's log */
+const MAX_EXCERPT_LINES = 60;
+
+/** Lines of context kept around each error line */
+const CONTEXT_BEFORE = 3;
+const CONTEXT_AFTER = 8;
+
+/** Lines that report an error in common compilers, linters and test runners */
+const ERROR_PATTERN =
+  /##\[error\]|\berror\b[\s:[(]|\bERR!|\bFAIL\b|\bFAILED\b|Traceback \(most recent call last\)|AssertionError|\bpanic:|^\s*(?:✗|×|✕)\s/i;
+
+/** The generic last error of every failed step, which says nothing about the cause */
+const EXIT_CODE_PATTERN = /##\[error\]Process completed with exit code \d+/;
+
+/**
+ * Checks whether a completed run or check suite failed
+ */
+export function isFailedConclusion(conclusion: string | null | undefined): boolean {
+  return !!conclusion && FAILED_CONCLUSIONS.includes(conclusion);
+}
+
+/**
+ * Cuts a job log down to the lines around its errors
+ *
+ * Timestamps, ANSI colors and group markers are stripped. When no line
+ * looks like an error, the end of the log (before the step failed) is kept.
+ */
+export function extractErrorSection(log: string, maxLines = MAX_EXCERPT_LINES): string {
+  let lines = log
+    .split(/\r?\n/)
+    .map((line) =>
+      line
+        .replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z ?/, '')
+        // eslint-disable-next-line no-control-regex
+        .replace(/\x1b\[[0-9;]*[A-Za-z]/g, '')
+        .replace(/^##\[group\]/, '')
+    )
+    .filter((line) => !line.startsWith('##[endgroup]'));
+
+  // Post-job cleanup after the failing step is noise
+  const exitLine = lines.findIndex((line) => EXIT_CODE_PATTERN.test(line));
+  if (exitLine >= 0) lines = lines.slice(0, exitLine);
+  while (lines.length > 0 && !lines[lines.length - 1]!.trim()) lines.pop();
+
+  const errorLines = lines.flatMap((line, index) => (ERROR_PATTERN.test(line) ? [index] : []));
+  if (errorLines.length === 0) {
+    return lines.slice(-maxLines).join('\n');
+  }
+
+  // Merge the context windows of nearby errors
+  const windows: Array<[start: number, end: number]> = [];
+  for (const index of errorLines) {
+    const start = Math.max(0, index - CONTEXT_BEFORE);
+    const end = Math.min(lines.length, index + CONTEXT_AFTER + 1);
+    const last = windows[windows.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      windows.push([start, end]);
+    }
+  }
+
+  // The first errors are usually the cause; later ones tend to follow from them
+  const excerpt: string[] = [];
+  for (const [start, end] of windows) {
+    if (excerpt.length >= maxLines) break;
+    if (excerpt.length > 0 || start > 0) excerpt.push('...');
+    excerpt.push(...lines.slice(start, Math.min(end, start + maxLines - excerpt.length)));
+  }
+  if (windows[windows.length - 1]![1] < lines.length) excerpt.push('...');
+  return excerpt.join('\n');
+}
+
+/**
+ * Collects the failed jobs of a GitHub Actions workflow run
+ */
+export async function collectWorkflowRunFailures(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  runId: number
+): Promise<CIFailure[]> {
+  const { data } = await octokit.rest.actions.listJobsForWorkflowRun({ owner, repo, run_id: runId, filter: 'latest', per_page: 100 });
+  const failed = data.jobs.filter((job) => isFailedConclusion(job.conclusion)).slice(0, MAX_FAILED_JOBS);
+
+  const failures: CIFailure[] = [];
+  for (const job of failed) {
+    const log = await downloadJobLog(octokit, owner, repo, job.id);
+    failures.push({
+      name: job.name,
+      url: job.html_url ?? '',
+      excerpt: log ? extractErrorSection(log) : describeFailedSteps(job.steps ?? []),
+    });
+  }
+  return failures;
+}
+
+/**
+ * Collects the failed check runs of a check suite
+ *
+ * Checks from GitHub Actions are read from their job logs; other CI
+ * systems only report through the check run output.
+ */
+export async function collectCheckSuiteFailures(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  checkSuiteId: number
+): Promise<CIFailure[]> {
+  const { data } = await octokit.rest.checks.listForSuite({ owner, repo, check_suite_id: checkSuiteId, filter: 'latest', per_page: 100 });
+  const failed = data.check_runs.filter((run) => isFailedConclusion(run.conclusion)).slice(0, MAX_FAILED_JOBS);
+
+  const failures: CIFailure[] = [];
+  for (const run of failed) {
+    const log = run.app?.slug === 'github-actions' ? await downloadJobLog(octokit, owner, repo, run.id) : null;
+    const output = [run.output.title, run.output.summary, run.output.text].filter(Boolean).join('\n\n');
+    failures.push({
+      name: run.name,
+      url: run.details_url || run.html_url || '',
+      excerpt: extractErrorSection(log ?? output) || 'The check failed without any output.',
+    });
+  }
+  return failures;
+}
+
+/**
+ * Formats CI failures as review feedback for a pr-feedback task
+ */
+export function formatCIFailureFeedback(failures: CIFailure[], runName: string): string {
+  let feedback = `## CI Failure\n\nThe \`${runName}\` checks failed on the latest push to this PR. ` +
+    'Fix the code so they pass; do not disable or weaken the failing checks.\n';
+  for (const failure of failures) {
+    feedback += `\n### ${failure.name}${failure.url ? ` ([logs](${failure.url}))` : ''}\n\n\`\`\`\n${failure.excerpt}\n\`\`\`\n`;
+  }
+  return feedback;
+}
+
+/**
+ * Downloads a job's plain-text log (needs `actions: read`)
+ *
+ * @returns The log, or null when it cannot be downloaded
+ */
+async function downloadJobLog(octokit: Octokit, owner: string, repo: string, jobId: number): Promise<string | null> {
+  try {
+    const { data } = await octokit.rest.actions.downloadJobLogsForWorkflowRun({ owner, repo, job_id: jobId });
+    return typeof data === 'string' ? data : String(data);
+  } catch (error) {
+    core.warning(`Failed to download the log of job ${jobId}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Names the failed steps of a job whose log is unavailable
+ */
+function describeFailedSteps(steps: Array<{ name: string; conclusion: string | null }>): string {
+  const failed = steps.filter((step) => isFailedConclusion(step.conclusion)).map((step) => step.name);
+  return failed.length > 0 ? `Failed steps: ${failed.join(', ')} (log unavailable)` : 'The job failed (log unavailable).';
+}
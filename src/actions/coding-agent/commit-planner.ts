@@ -0,0 +1,157 @@
+/**
+ * Commit Planning
+ *
+ * Splits the agent's change set into logically grouped commits
+ * (implementation, tests, docs) with Conventional Commit messages, so agent
+ * PRs pass commitlint and feed semantic-release like any other PR. The
+ * commit type comes from the labels triage put on the issue.
+ */
+
+/** Identity the agent commits (and signs off) as */
+export const AGENT_COMMITTER = {
+  name: 'github-actions[bot]',
+  email: 'github-actions[bot]@users.noreply.github.com',
+};
+
+/** Longest commit header (commitlint's config-conventional allows 100) */
+const MAX_HEADER_LENGTH = 72;
+
+/** Triage labels mapped to commit types, strongest first */
+const LABEL_COMMIT_TYPES: Array<[label: string, type: string]> = [
+  ['security', 'fix'],
+  ['bug', 'fix'],
+  ['performance', 'perf'],
+  ['feature', 'feat'],
+  ['enhancement', 'feat'],
+  ['documentation', 'docs'],
+];
+
+/** What a changed file is, for grouping */
+export type CommitFileKind = 'source' | 'test' | 'docs';
+
+/** Options for the commit messages */
+export interface CommitMessageOptions {
+  /** Conventional Commit type of the implementation commit */
+  type: string;
+  /** Mark the implementation commit as a breaking change (`type!:`) */
+  breaking?: boolean;
+  /** Change summary; its first sentence becomes the subject */
+  summary: string;
+  /** Issue or PR added as a `Refs #N` trailer */
+  reference?: number;
+  /** Add a DCO `Signed-off-by` trailer */
+  signOff?: boolean;
+  /** Identity the sign-off names (defaults to {@link AGENT_COMMITTER}) */
+  identity?: { name: string; email: string };
+  /** Identifies rebuilt artifacts (`dist/`, lockfiles), committed separately as `chore` */
+  isGenerated?: (filePath: string) => boolean;
+}
+
+/** One commit of the change set */
+export interface PlannedCommit<F extends { path: string }> {
+  message: string;
+  files: F[];
+}
+
+/**
+ * Picks the commit type for a task from its issue labels
+ */
+export function commitTypeFromLabels(labels: string[], fallback: string): string {
+  for (const [label, type] of LABEL_COMMIT_TYPES) {
+    if (labels.includes(label)) return type;
+  }
+  return fallback;
+}
+
+/**
+ * Classifies a file as source, test or documentation
+ */
+export function classifyFile(filePath: string): CommitFileKind {
+  if (
+    /(^|\/)(__tests__|tests?|spec)\//.test(filePath) ||
+    /\.(test|spec)\.[^/]+$/.test(filePath) ||
+    /_test\.[^/]+$/.test(filePath) ||
+    /(^|\/)test_[^/]+\.py$/.test(filePath)
+  ) {
+    return 'test';
+  }
+  if (/\.(md|mdx|rst|adoc)$/i.test(filePath) || /(^|\/)docs?\//.test(filePath)) {
+    return 'docs';
+  }
+  return 'source';
+}
+
+/**
+ * Groups changed files into implementation, test, docs and rebuilt-artifact commits
+ *
+ * Groups that end up with the same commit type (e.g. docs changes on a
+ * documentation issue) are committed together. Every commit carries the
+ * same subject and trailers; only the implementation commit has a body.
+ */
+export function planCommits<F extends { path: string }>(
+  files: F[],
+  options: CommitMessageOptions
+): Array<PlannedCommit<F>> {
+  const kindTypes: Record<CommitFileKind | 'generated', string> = {
+    source: options.type,
+    test: 'test',
+    docs: 'docs',
+    generated: 'chore',
+  };
+  const kindOf = (filePath: string) => (options.isGenerated?.(filePath) ? 'generated' : classifyFile(filePath));
+
+  const byType = new Map<string, F[]>();
+  for (const kind of ['source', 'test', 'docs', 'generated'] as const) {
+    const group = files.filter((file) => kindOf(file.path) === kind);
+    if (group.length === 0) continue;
+    const type = kindTypes[kind];
+    byType.set(type, [...(byType.get(type) ?? []), ...group]);
+  }
+
+  const { subject, paragraph, complete } = splitSummary(options.summary);
+  const trailers: string[] = [];
+  if (options.reference) trailers.push(`Refs #${options.reference}`);
+  if (options.signOff) {
+    const { name, email } = options.identity ?? AGENT_COMMITTER;
+    trailers.push(`Signed-off-by: ${name} <${email}>`);
+  }
+
+  return [...byType].map(([type, group], index) => {
+    // The breaking marker belongs on the main commit only
+    const main = index === 0;
+    const prefix = `${type}${main && options.breaking ? '!' : ''}: `;
+    const shortSubject = truncate(subject, MAX_HEADER_LENGTH - prefix.length);
+    const sections = [prefix + shortSubject];
+    // The body repeats the summary when the header could not say everything
+    if (main && (shortSubject !== subject || !complete)) {
+      sections.push(paragraph);
+    }
+    if (trailers.length > 0) sections.push(trailers.join('\n'));
+    return { message: sections.join('\n\n'), files: group };
+  });
+}
+
+/**
+ * Takes a lower-case subject from the summary's first sentence
+ *
+ * @returns The subject, the summary's first paragraph, and whether the subject covers all of it
+ */
+function splitSummary(summary: string): { subject: string; paragraph: string; complete: boolean } {
+  const paragraph = summary.trim().split(/\n\s*\n/)[0]?.replace(/\s+/g, ' ').trim() || 'apply agent changes';
+  const sentence = paragraph.split(/(?<=[.!?])\s/)[0] ?? paragraph;
+
+  let subject = sentence.replace(/[.!?]+$/, '');
+  // Keep acronyms ("API") but lower-case a leading word ("Add" → "add")
+  if (!/^[A-Z]{2}/.test(subject)) {
+    subject = subject.charAt(0).toLowerCase() + subject.slice(1);
+  }
+
+  return { subject, paragraph, complete: sentence === paragraph };
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.substring(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > maxLength / 2 ? cut.substring(0, lastSpace) : cut).trimEnd();
+}
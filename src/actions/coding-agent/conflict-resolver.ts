@@ -0,0 +1,464 @@
+/**
+ * Merge Conflict Resolution
+ *
+ * Finds the files an agent branch and its base branch both changed since
+ * their merge base, merges each with a line-based three-way merge, and
+ * builds a merge commit through the Git Data API. Files the three-way
+ * merge cannot settle are left for the model to resolve.
+ */
+
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+import { checkDeletionGuard } from './patch-applier.js';
+import { evaluatePolicy, type AgentPolicy, type PolicyChange } from './policy.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** A file changed on both sides since the merge base */
+export interface ConflictFile {
+  path: string;
+  /** Content at the merge base (null if the file did not exist) */
+  base: string | null;
+  /** Content on the agent branch (null if deleted there) */
+  ours: string | null;
+  /** Content on the base branch (null if deleted there) */
+  theirs: string | null;
+}
+
+/** A file changed only on the base branch, carried into the merge as-is */
+export interface BaseOnlyChange {
+  path: string;
+  /** Blob on the base branch, or null when the file was deleted */
+  sha: string | null;
+  /** Old path when the file was renamed */
+  previousPath?: string;
+}
+
+/** A file changed on both sides that cannot be merged through the API */
+export interface UnmergeableFile {
+  path: string;
+  reason: string;
+}
+
+/** Result of comparing the branch with its base */
+export interface ConflictAnalysis {
+  headSha: string;
+  baseSha: string;
+  mergeBaseSha: string;
+  /** Commits on the base branch not yet in the agent branch */
+  behindBy: number;
+  candidates: ConflictFile[];
+  /** Files changed on both sides that must be merged by hand */
+  unmergeable: UnmergeableFile[];
+  baseOnly: BaseOnlyChange[];
+  /** Files changed only on the agent branch (true when deleted there) */
+  oursOnly: Map<string, boolean>;
+}
+
+/** Result of a three-way merge of one file */
+export interface MergeResult {
+  /** Merged content (null deletes the file); contains conflict markers when clean is false */
+  content: string | null;
+  clean: boolean;
+  conflicts: number;
+}
+
+/**
+ * Thrown when a file's content cannot be read for merging (binary, or too
+ * large for the contents API)
+ */
+export class UnmergeableFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnmergeableFileError';
+  }
+}
+
+/** Largest diff table built by the line matcher (cells) */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compares the agent branch with its base and collects the files changed
+ * on both sides, with their base/ours/theirs contents
+ */
+export async function analyzeConflicts(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  baseBranch: string
+): Promise<ConflictAnalysis> {
+  const { data: comparison } = await octokit.rest.repos.compareCommits({
+    owner,
+    repo,
+    base: baseBranch,
+    head: branch,
+  });
+  const mergeBaseSha = comparison.merge_base_commit.sha;
+
+  const { data: headRef } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+  const headSha = headRef.object.sha;
+  const { data: baseRef } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${baseBranch}` });
+  const baseSha = baseRef.object.sha;
+
+  // Files the base branch changed since the merge base
+  const { data: baseChanges } = await octokit.rest.repos.compareCommits({
+    owner,
+    repo,
+    base: mergeBaseSha,
+    head: baseSha,
+  });
+
+  const oursPaths = new Set<string>();
+  for (const file of comparison.files || []) {
+    oursPaths.add(file.filename);
+    if (file.previous_filename) oursPaths.add(file.previous_filename);
+  }
+  const theirsPaths = new Set<string>();
+  for (const file of baseChanges.files || []) {
+    theirsPaths.add(file.filename);
+    if (file.previous_filename) theirsPaths.add(file.previous_filename);
+  }
+  const oursOnly = new Map<string, boolean>();
+  for (const file of comparison.files || []) {
+    if (!theirsPaths.has(file.filename)) oursOnly.set(file.filename, file.status === 'removed');
+  }
+
+  const candidates: ConflictFile[] = [];
+  const unmergeable: UnmergeableFile[] = [];
+  const baseOnly: BaseOnlyChange[] = [];
+  for (const file of baseChanges.files || []) {
+    const touchedByUs = oursPaths.has(file.filename) ||
+      (!!file.previous_filename && oursPaths.has(file.previous_filename));
+
+    if (!touchedByUs) {
+      baseOnly.push({
+        path: file.filename,
+        sha: file.status === 'removed' ? null : file.sha,
+        previousPath: file.status === 'renamed' ? file.previous_filename : undefined,
+      });
+      continue;
+    }
+
+    const basePath = file.previous_filename || file.filename;
+    try {
+      candidates.push({
+        path: file.filename,
+        base: await fetchFileContent(octokit, owner, repo, basePath, mergeBaseSha),
+        ours: await fetchFileContent(octokit, owner, repo, file.filename, headSha),
+        theirs: await fetchFileContent(octokit, owner, repo, file.filename, baseSha),
+      });
+    } catch (error) {
+      if (!(error instanceof UnmergeableFileError)) throw error;
+      unmergeable.push({ path: file.filename, reason: error.message });
+    }
+  }
+
+  return {
+    headSha,
+    baseSha,
+    mergeBaseSha,
+    behindBy: comparison.behind_by,
+    candidates,
+    unmergeable,
+    baseOnly,
+    oursOnly,
+  };
+}
+
+/**
+ * Checks the merge result against the change policy, and the files the
+ * model resolved against the deletion guard. Both compare with the base
+ * branch's version, so only what the agent branch brings in is measured.
+ *
+ * @param resolved - Final content of every candidate file (null deletes it)
+ * @param modelResolved - Paths of the files the model resolved
+ * @returns Problems that block pushing the merge
+ */
+export function checkMergeResult(
+  analysis: ConflictAnalysis,
+  resolved: Map<string, string | null>,
+  modelResolved: string[],
+  policy: AgentPolicy,
+  maxDeletionPercent: number
+): string[] {
+  const theirs = new Map(analysis.candidates.map((file) => [file.path, file.theirs]));
+
+  const changes: PolicyChange[] = [...resolved].map(([path, content]) => ({
+    path,
+    content: content ?? '',
+    operation: content === null ? 'delete' : theirs.get(path) == null ? 'create' : 'modify',
+  }));
+  const problems = evaluatePolicy(policy, changes, (path) => theirs.get(path) ?? null).map((v) => v.message);
+
+  for (const path of modelResolved) {
+    const original = theirs.get(path);
+    const content = resolved.get(path);
+    if (original == null || content === undefined) continue;
+    const guard = checkDeletionGuard(path, original, content, maxDeletionPercent, false);
+    if (guard) problems.push(`${path}: ${guard.reason}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Lists the merge result as changes on top of the base branch, so it can
+ * be verified in a worktree of the base branch
+ *
+ * @param resolved - Final content of every candidate file (null deletes it)
+ */
+export async function getMergedChanges(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  analysis: ConflictAnalysis,
+  resolved: Map<string, string | null>
+): Promise<Array<{ path: string; content: string; operation: 'modify' | 'delete' }>> {
+  const changes: Array<{ path: string; content: string; operation: 'modify' | 'delete' }> = [];
+
+  for (const [path, deleted] of analysis.oursOnly) {
+    const content = deleted ? null : await fetchFileContent(octokit, owner, repo, path, analysis.headSha);
+    changes.push(content === null
+      ? { path, content: '', operation: 'delete' }
+      : { path, content, operation: 'modify' });
+  }
+  for (const [path, content] of resolved) {
+    changes.push(content === null
+      ? { path, content: '', operation: 'delete' }
+      : { path, content, operation: 'modify' });
+  }
+
+  return changes;
+}
+
+/**
+ * Merges one file three ways. Deletions only merge cleanly when the
+ * other side left the file untouched.
+ */
+export function mergeFile(file: ConflictFile): MergeResult {
+  const { base, ours, theirs } = file;
+
+  if (ours === theirs) return { content: ours, clean: true, conflicts: 0 };
+  if (ours === base) return { content: theirs, clean: true, conflicts: 0 };
+  if (theirs === base) return { content: ours, clean: true, conflicts: 0 };
+
+  // Modified on one side, deleted on the other
+  if (ours === null || theirs === null) {
+    return { content: ours ?? theirs, clean: false, conflicts: 1 };
+  }
+
+  return mergeThreeWay(base ?? '', ours, theirs);
+}
+
+/**
+ * Line-based three-way merge (diff3). Regions changed on only one side
+ * take that side; regions changed identically on both sides merge; other
+ * regions are emitted with git-style conflict markers.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n');
+  const oursLines = ours.split('\n');
+  const theirsLines = theirs.split('\n');
+
+  const toOurs = matchLines(baseLines, oursLines);
+  const toTheirs = matchLines(baseLines, theirsLines);
+  if (!toOurs || !toTheirs) {
+    // Too large to diff: treat the whole file as one conflict
+    return {
+      content: formatConflict(oursLines, baseLines, theirsLines).join('\n'),
+      clean: false,
+      conflicts: 1,
+    };
+  }
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  const flush = (bEnd: number, oEnd: number, tEnd: number) => {
+    const baseChunk = baseLines.slice(b, bEnd);
+    const oursChunk = oursLines.slice(o, oEnd);
+    const theirsChunk = theirsLines.slice(t, tEnd);
+
+    if (sameLines(oursChunk, baseChunk)) {
+      output.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      output.push(...oursChunk);
+    } else {
+      conflicts++;
+      output.push(...formatConflict(oursChunk, baseChunk, theirsChunk));
+    }
+  };
+
+  // Walk base lines kept by both sides; everything between them is a changed region
+  for (let i = 0; i < baseLines.length; i++) {
+    const oi = toOurs[i];
+    const ti = toTheirs[i];
+    if (oi === undefined || ti === undefined || oi < 0 || ti < 0) continue;
+
+    flush(i, oi, ti);
+    output.push(baseLines[i]!);
+    b = i + 1;
+    o = oi + 1;
+    t = ti + 1;
+  }
+  flush(baseLines.length, oursLines.length, theirsLines.length);
+
+  return { content: output.join('\n'), clean: conflicts === 0, conflicts };
+}
+
+/**
+ * Checks merged content for leftover conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return /^(<{7}|={7}|>{7}|\|{7})( |$)/m.test(content);
+}
+
+/**
+ * Creates a merge commit of the base branch into the agent branch
+ *
+ * @param resolved - Final content of every candidate file (null deletes it)
+ * @returns SHA of the merge commit
+ */
+export async function createMergeCommit(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  analysis: ConflictAnalysis,
+  resolved: Map<string, string | null>,
+  message: string
+): Promise<string> {
+  const { data: headCommit } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: analysis.headSha });
+
+  const tree: Array<{ path: string; mode: '100644'; type: 'blob'; sha: string | null }> = [];
+  for (const change of analysis.baseOnly) {
+    if (change.previousPath) {
+      tree.push({ path: change.previousPath, mode: '100644', type: 'blob', sha: null });
+    }
+    tree.push({ path: change.path, mode: '100644', type: 'blob', sha: change.sha });
+  }
+  for (const [path, content] of resolved) {
+    if (content === null) {
+      tree.push({ path, mode: '100644', type: 'blob', sha: null });
+      continue;
+    }
+    const { data: blob } = await octokit.rest.git.createBlob({ owner, repo, content, encoding: 'utf-8' });
+    tree.push({ path, mode: '100644', type: 'blob', sha: blob.sha });
+  }
+
+  const { data: newTree } = await octokit.rest.git.createTree({
+    owner,
+    repo,
+    base_tree: headCommit.tree.sha,
+    tree: tree as any, // GitHub types don't allow sha: null for deletions
+  });
+
+  const { data: commit } = await octokit.rest.git.createCommit({
+    owner,
+    repo,
+    message,
+    tree: newTree.sha,
+    parents: [analysis.headSha, analysis.baseSha],
+  });
+
+  core.info(`Merge commit created: ${commit.sha.substring(0, 7)}`);
+  return commit.sha;
+}
+
+/**
+ * Reads a text file at a ref through the API
+ *
+ * @returns The content, or null if the file does not exist at that ref
+ * @throws UnmergeableFileError for binary files and files too large for the API
+ */
+export async function fetchFileContent(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<string | null> {
+  try {
+    const { data } = await octokit.rest.repos.getContent({ owner, repo, path, ref });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) return null;
+    // Files over 1MB come back without content (encoding "none")
+    if (data.encoding === 'none' || (data.size > 0 && !data.content)) {
+      throw new UnmergeableFileError(`${path} is too large to merge automatically`);
+    }
+    const buffer = Buffer.from(data.content, 'base64');
+    if (buffer.includes(0)) {
+      throw new UnmergeableFileError(`${path} is a binary file and cannot be merged automatically`);
+    }
+    return buffer.toString('utf-8');
+  } catch (error) {
+    if ((error as { status?: number })?.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Matches lines of `a` to lines of `b` along a longest common subsequence
+ *
+ * @returns For each line of `a`, the index of its match in `b` or -1;
+ *   null if the files are too large to compare
+ */
+function matchLines(a: string[], b: string[]): number[] | null {
+  const matches = new Array<number>(a.length).fill(-1);
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0) return matches;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) return null;
+
+  // lengths[i][j] = LCS of a[start+i..endA) and b[start+j..endB)
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[start + i] === b[start + j]
+        ? lengths[(i + 1) * width + j + 1]! + 1
+        : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function formatConflict(ours: string[], base: string[], theirs: string[]): string[] {
+  return ['<<<<<<< ours', ...ours, '||||||| base', ...base, '=======', ...theirs, '>>>>>>> theirs'];
+}
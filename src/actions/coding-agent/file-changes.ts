@@ -0,0 +1,126 @@
+/**
+ * File Changes
+ *
+ * The change format shared by generation, verification and the commit
+ * paths. Besides UTF-8 text, a change can carry base64 binary content,
+ * an executable bit, or a rename that moves an existing blob without
+ * reading it (so binary and very large files never pass through the
+ * model or memory). Generated artifacts such as `dist/` and lockfiles
+ * are never written by the model; they are rebuilt before committing.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchesGlob } from './policy.js';
+
+/** What a change does to its path */
+export type FileOperation = 'create' | 'modify' | 'delete' | 'rename';
+
+/** Git modes a change can set */
+export type FileMode = '100644' | '100755';
+
+/** A change to one file */
+export interface FileChange {
+  path: string;
+  /** New content; empty for deletes and for renames that keep the content */
+  content: string;
+  operation: FileOperation;
+  /** Previous path of a renamed file */
+  from?: string;
+  /** How `content` is encoded (defaults to utf-8) */
+  encoding?: 'utf-8' | 'base64';
+  /** Git mode to set; when unset the existing file's mode is kept */
+  mode?: FileMode;
+  /** Rename that moves the existing blob unchanged (`content` is unused) */
+  moveOnly?: boolean;
+}
+
+/** Paths produced by builds and package managers, rebuilt instead of edited */
+export const DEFAULT_GENERATED_PATHS = ['dist/', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+
+/** Bytes inspected when sniffing for binary content (git uses the same window) */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Checks whether a path is a generated artifact
+ */
+export function isGeneratedPath(filePath: string, globs: string[]): boolean {
+  return globs.some((glob) => matchesGlob(filePath, glob));
+}
+
+/**
+ * Detects binary content the way git does: a NUL byte near the start
+ */
+export function isBinaryContent(content: Buffer | string): boolean {
+  if (typeof content === 'string') return content.slice(0, BINARY_SNIFF_BYTES).includes('\0');
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Checks whether a change's content is text that can be shown, diffed or reviewed
+ */
+export function hasTextContent(change: FileChange): boolean {
+  return change.operation !== 'delete' && !change.moveOnly && change.encoding !== 'base64';
+}
+
+/**
+ * Describes a change for logs, comments and prompts, e.g. `rename: a.ts → b.ts`
+ */
+export function describeFileChange(change: FileChange): string {
+  const target = change.operation === 'rename' && change.from ? `${change.from} → ${change.path}` : change.path;
+  const notes = [
+    change.encoding === 'base64' ? 'binary' : '',
+    change.mode === '100755' ? 'executable' : '',
+    change.moveOnly ? 'content unchanged' : '',
+  ].filter(Boolean);
+  return `${change.operation}: ${target}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+}
+
+/**
+ * Lists every path a change set touches, including the old paths of renames
+ */
+export function listTouchedPaths(changes: FileChange[]): string[] {
+  return changes.flatMap((change) => (change.operation === 'rename' && change.from ? [change.from, change.path] : [change.path]));
+}
+
+/**
+ * Writes changes to a working tree (the checkout or a scratch worktree)
+ *
+ * Renames move the existing file first, so its mode survives; content is
+ * written afterwards unless the rename keeps it.
+ */
+export function writeFileChanges(root: string, changes: FileChange[]): void {
+  for (const change of changes) {
+    const target = resolveWithin(root, change.path);
+
+    if (change.operation === 'delete') {
+      fs.rmSync(target, { force: true });
+      continue;
+    }
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    if (change.operation === 'rename' && change.from) {
+      const source = resolveWithin(root, change.from);
+      if (fs.existsSync(source)) fs.renameSync(source, target);
+    }
+    if (!change.moveOnly) {
+      fs.writeFileSync(target, Buffer.from(change.content, change.encoding === 'base64' ? 'base64' : 'utf-8'));
+    }
+    if (change.mode) {
+      fs.chmodSync(target, change.mode === '100755' ? 0o755 : 0o644);
+    }
+  }
+}
+
+/**
+ * Resolves a repository path, refusing paths that escape the root
+ */
+function resolveWithin(root: string, filePath: string): string {
+  const base = path.resolve(root);
+  const target = path.join(base, filePath);
+  // Paths were validated by the loop; guard against escaping the tree anyway
+  if (!target.startsWith(base + path.sep)) {
+    throw new Error(`Refusing to write outside the working tree: ${filePath}`);
+  }
+  return target;
+}
@@ -0,0 +1,458 @@
+/**
+ * Patch Applier
+ *
+ * Applies model-generated edits (search/replace hunks or unified-diff
+ * patches) against the real contents of a file from the checkout, so the
+ * model only has to emit the lines it changes instead of whole files.
+ */
+
+/** A single search/replace hunk emitted by the model */
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+/** An edit that could not be applied */
+export interface EditConflict {
+  path: string;
+  hunk: number;
+  reason: string;
+  /** Closest region of the real file, to help the model retry */
+  closestMatch?: string;
+}
+
+/** Result of applying a set of edits to a file */
+export interface PatchResult {
+  content: string;
+  applied: number;
+  conflicts: EditConflict[];
+}
+
+/** Deletion statistics between an original file and its replacement */
+export interface DeletionStats {
+  originalLines: number;
+  removedLines: number;
+  percent: number;
+}
+
+/** Files shorter than this are exempt from the deletion guard */
+export const MIN_GUARDED_FILE_LINES = 20;
+
+/** Maximum context lines GNU-patch style fuzzing may drop from each end of a hunk */
+const MAX_CONTEXT_FUZZ = 2;
+
+/** Maximum lines of the closest match echoed back in a conflict */
+const MAX_CLOSEST_MATCH_LINES = 15;
+
+interface LineMatch {
+  start: number;
+  length: number;
+  exact: boolean;
+}
+
+/**
+ * Applies search/replace edits in order. Each search block is located
+ * exactly first, then ignoring whitespace; edits that cannot be located
+ * unambiguously are reported as conflicts. Every line of the search text
+ * must match, so no line of the file is replaced without being named.
+ */
+export function applySearchReplaceEdits(
+  original: string,
+  edits: SearchReplaceEdit[],
+  path: string
+): PatchResult {
+  const trailingNewline = original.endsWith('\n');
+  let lines = splitLines(original);
+  const conflicts: EditConflict[] = [];
+  let applied = 0;
+
+  edits.forEach((edit, index) => {
+    if (typeof edit?.search !== 'string' || typeof edit?.replace !== 'string') {
+      conflicts.push({ path, hunk: index + 1, reason: 'Edit is missing "search" or "replace" text' });
+      return;
+    }
+
+    const searchLines = splitLines(edit.search);
+    const replaceLines = edit.replace === '' ? [] : splitLines(edit.replace);
+
+    // An empty search block appends to the end of the file
+    if (searchLines.length === 0 || (searchLines.length === 1 && searchLines[0] === '')) {
+      lines = [...lines, ...replaceLines];
+      applied++;
+      return;
+    }
+
+    const exactStarts = findExactMatches(lines, searchLines);
+    if (exactStarts.length > 1) {
+      conflicts.push({
+        path,
+        hunk: index + 1,
+        reason: `Search text matches ${exactStarts.length} locations; include more surrounding lines to make it unique`,
+      });
+      return;
+    }
+
+    const looseStarts = exactStarts.length === 1 ? exactStarts : findWhitespaceInsensitiveMatches(lines, searchLines);
+    if (looseStarts.length > 1) {
+      conflicts.push({
+        path,
+        hunk: index + 1,
+        reason: `Search text matches ${looseStarts.length} locations when ignoring whitespace; include more surrounding lines to make it unique`,
+      });
+      return;
+    }
+
+    const match: LineMatch | null = looseStarts.length === 1
+      ? { start: looseStarts[0]!, length: searchLines.length, exact: exactStarts.length === 1 }
+      : null;
+
+    if (!match) {
+      conflicts.push({
+        path,
+        hunk: index + 1,
+        reason: 'Search text was not found in the file',
+        closestMatch: describeClosestMatch(lines, searchLines),
+      });
+      return;
+    }
+
+    const replacement = match.exact
+      ? replaceLines
+      : reindent(replaceLines, searchLines[0] ?? '', lines[match.start] ?? '');
+    lines = [...lines.slice(0, match.start), ...replacement, ...lines.slice(match.start + match.length)];
+    applied++;
+  });
+
+  return { content: joinLines(lines, trailingNewline), applied, conflicts };
+}
+
+/** A parsed hunk of a unified diff */
+interface DiffHunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+/**
+ * Applies a unified-diff patch. Hunks are located near their stated
+ * position, tolerating drift from earlier hunks, whitespace differences
+ * and (like GNU patch) a couple of mismatched context lines at each end;
+ * dropped context lines are kept as they are in the file.
+ */
+export function applyUnifiedDiff(original: string, patch: string, path: string): PatchResult {
+  const trailingNewline = original.endsWith('\n');
+  let lines = splitLines(original);
+  const conflicts: EditConflict[] = [];
+  let applied = 0;
+  let offset = 0;
+
+  const hunks = parseHunks(patch);
+  if (hunks.length === 0) {
+    return {
+      content: original,
+      applied: 0,
+      conflicts: [{ path, hunk: 0, reason: 'Patch does not contain any @@ hunks' }],
+    };
+  }
+
+  hunks.forEach((hunk, index) => {
+    // Pure insertion hunks (no old lines) go at the stated position
+    if (hunk.oldLines.length === 0) {
+      const at = Math.min(Math.max(hunk.oldStart + offset, 0), lines.length);
+      lines = [...lines.slice(0, at), ...hunk.newLines, ...lines.slice(at)];
+      offset += hunk.newLines.length;
+      applied++;
+      return;
+    }
+
+    const expected = Math.max(hunk.oldStart - 1 + offset, 0);
+    let match = findNearestExact(lines, hunk.oldLines, expected) ?? findNearestLoose(lines, hunk.oldLines, expected);
+    let oldLines = hunk.oldLines;
+    let newLines = hunk.newLines;
+
+    // Drop mismatched leading/trailing context lines and retry
+    for (let fuzz = 1; !match && fuzz <= MAX_CONTEXT_FUZZ; fuzz++) {
+      const lead = countLeadingContext(hunk, fuzz);
+      const trail = countTrailingContext(hunk, fuzz);
+      if (lead === 0 && trail === 0) break;
+      oldLines = hunk.oldLines.slice(lead, hunk.oldLines.length - trail);
+      newLines = hunk.newLines.slice(lead, hunk.newLines.length - trail);
+      if (oldLines.length === 0) break;
+      match = findNearestExact(lines, oldLines, expected + lead) ?? findNearestLoose(lines, oldLines, expected + lead);
+    }
+
+    if (!match) {
+      conflicts.push({
+        path,
+        hunk: index + 1,
+        reason: `Hunk @@ -${hunk.oldStart} @@ does not match the current file contents`,
+        closestMatch: describeClosestMatch(lines, hunk.oldLines),
+      });
+      return;
+    }
+
+    const replacement = match.exact ? newLines : reindent(newLines, oldLines[0] ?? '', lines[match.start] ?? '');
+    lines = [...lines.slice(0, match.start), ...replacement, ...lines.slice(match.start + match.length)];
+    offset += replacement.length - match.length;
+    applied++;
+  });
+
+  return { content: joinLines(lines, trailingNewline), applied, conflicts };
+}
+
+/**
+ * Measures how much of the original file a change removes.
+ * Lines are compared as a multiset so moved lines are not counted.
+ */
+export function measureDeletion(original: string, updated: string): DeletionStats {
+  const originalLines = splitLines(original).filter((l) => l.trim().length > 0);
+  const remaining = new Map<string, number>();
+  for (const line of splitLines(updated)) {
+    const key = line.trim();
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  }
+
+  let removedLines = 0;
+  for (const line of originalLines) {
+    const key = line.trim();
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+    } else {
+      removedLines++;
+    }
+  }
+
+  const percent = originalLines.length === 0 ? 0 : Math.round((removedLines / originalLines.length) * 100);
+  return { originalLines: originalLines.length, removedLines, percent };
+}
+
+/**
+ * Applies the deletion guard: a change to an existing file may not remove
+ * more than `maxPercent` of its lines (deleting the file removes all of
+ * them) unless the plan announced it
+ *
+ * @returns The conflict to report, or null if the change is allowed
+ */
+export function checkDeletionGuard(
+  path: string,
+  original: string,
+  updated: string | null,
+  maxPercent: number,
+  planned: boolean
+): EditConflict | null {
+  if (planned) return null;
+  const stats = measureDeletion(original, updated ?? '');
+  if (stats.originalLines < MIN_GUARDED_FILE_LINES || stats.percent <= maxPercent) return null;
+
+  return {
+    path,
+    hunk: 0,
+    reason: updated === null
+      ? `Deleting this file would remove all ${stats.originalLines} lines of an existing file. ` +
+        'List it in the plan\'s "largeDeletions" if it should really be deleted.'
+      : `Change would delete ${stats.percent}% (${stats.removedLines}/${stats.originalLines} lines) of the existing file, ` +
+        `above the ${maxPercent}% limit. Use targeted "edit" operations instead of rewriting the file.`,
+  };
+}
+
+/**
+ * Formats edit conflicts for inclusion in the next iteration's prompt
+ */
+export function formatEditConflicts(conflicts: EditConflict[]): string[] {
+  return conflicts.map((c) => {
+    let message = `${c.path} (edit ${c.hunk}): ${c.reason}`;
+    if (c.closestMatch) {
+      message += `\n   Closest region in the current file:\n\`\`\`\n${c.closestMatch}\n\`\`\``;
+    }
+    return message;
+  });
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const normalized = text.replace(/\r\n/g, '\n');
+  const lines = normalized.split('\n');
+  if (normalized.endsWith('\n')) lines.pop();
+  return lines;
+}
+
+function joinLines(lines: string[], trailingNewline: boolean): string {
+  const joined = lines.join('\n');
+  return trailingNewline && lines.length > 0 ? joined + '\n' : joined;
+}
+
+function parseHunks(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of patch.replace(/\r\n/g, '\n').split('\n')) {
+    const header = line.match(/^@@\s+-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?\s+@@/);
+    if (header) {
+      current = { oldStart: parseInt(header[1]!, 10), oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+    // A new file section starts with its headers; `---`/`+++` are only
+    // headers before its first hunk, inside a hunk they are content
+    // (e.g. an added `++i;` or a removed `-- comment`)
+    if (line.startsWith('diff ')) {
+      current = null;
+      continue;
+    }
+    if (!current || line.startsWith('\\')) {
+      continue;
+    }
+    if (line.startsWith('-')) {
+      current.oldLines.push(line.substring(1));
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.substring(1));
+    } else if (line.startsWith(' ') || line === '') {
+      const text = line.substring(1);
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    }
+  }
+
+  // A trailing blank line from splitting is not real context
+  for (const hunk of hunks) {
+    while (
+      hunk.oldLines.length > 0 &&
+      hunk.newLines.length > 0 &&
+      hunk.oldLines[hunk.oldLines.length - 1] === '' &&
+      hunk.newLines[hunk.newLines.length - 1] === ''
+    ) {
+      hunk.oldLines.pop();
+      hunk.newLines.pop();
+    }
+  }
+
+  return hunks;
+}
+
+function countLeadingContext(hunk: DiffHunk, max: number): number {
+  let n = 0;
+  while (n < max && n < hunk.oldLines.length && n < hunk.newLines.length && hunk.oldLines[n] === hunk.newLines[n]) {
+    n++;
+  }
+  return n;
+}
+
+function countTrailingContext(hunk: DiffHunk, max: number): number {
+  let n = 0;
+  while (
+    n < max &&
+    n < hunk.oldLines.length &&
+    n < hunk.newLines.length &&
+    hunk.oldLines[hunk.oldLines.length - 1 - n] === hunk.newLines[hunk.newLines.length - 1 - n]
+  ) {
+    n++;
+  }
+  return n;
+}
+
+function findExactMatches(lines: string[], search: string[]): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i + search.length <= lines.length; i++) {
+    if (search.every((s, j) => lines[i + j] === s)) {
+      starts.push(i);
+    }
+  }
+  return starts;
+}
+
+function findNearestExact(lines: string[], search: string[], expected: number): LineMatch | null {
+  const start = nearest(findExactMatches(lines, search), expected);
+  return start === null ? null : { start, length: search.length, exact: true };
+}
+
+/**
+ * Finds every window of the file whose lines all equal the search lines
+ * when whitespace is ignored
+ */
+function findWhitespaceInsensitiveMatches(lines: string[], search: string[]): number[] {
+  const normalizedSearch = search.map(normalizeLine);
+  const starts: number[] = [];
+  for (let i = 0; i + search.length <= lines.length; i++) {
+    if (normalizedSearch.every((s, j) => normalizeLine(lines[i + j] ?? '') === s)) {
+      starts.push(i);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Finds the whitespace-insensitive match closest to a hunk's stated position
+ */
+function findNearestLoose(lines: string[], search: string[], expected: number): LineMatch | null {
+  const start = nearest(findWhitespaceInsensitiveMatches(lines, search), expected);
+  return start === null ? null : { start, length: search.length, exact: false };
+}
+
+function nearest(starts: number[], expected: number): number | null {
+  if (starts.length === 0) return null;
+  return starts.reduce((best, s) => (Math.abs(s - expected) < Math.abs(best - expected) ? s : best));
+}
+
+function describeClosestMatch(lines: string[], search: string[]): string | undefined {
+  const anchor = search.map(normalizeLine).find((l) => l.length > 0);
+  if (!anchor) return undefined;
+
+  let bestIndex = -1;
+  let bestScore = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const score = similarity(normalizeLine(lines[i] ?? ''), anchor);
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = i;
+    }
+  }
+
+  if (bestIndex < 0 || bestScore < 0.5) return undefined;
+  const end = Math.min(bestIndex + Math.max(search.length, 3), bestIndex + MAX_CLOSEST_MATCH_LINES, lines.length);
+  return lines
+    .slice(bestIndex, end)
+    .map((l, i) => `${bestIndex + i + 1}: ${l}`)
+    .join('\n');
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/** Bigram (Dice) similarity between two strings, 0..1 */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const gram = a.substring(i, i + 2);
+    bigrams.set(gram, (bigrams.get(gram) || 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const gram = b.substring(i, i + 2);
+    const count = bigrams.get(gram) || 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/**
+ * When a hunk matched with different indentation, shift the replacement
+ * by the same amount so it lines up with the real file.
+ */
+function reindent(replacement: string[], searchFirst: string, actualFirst: string): string[] {
+  const searchIndent = searchFirst.match(/^\s*/)?.[0] ?? '';
+  const actualIndent = actualFirst.match(/^\s*/)?.[0] ?? '';
+  if (searchIndent === actualIndent) return replacement;
+
+  return replacement.map((line) => {
+    if (line.trim().length === 0) return line;
+    if (line.startsWith(searchIndent)) return actualIndent + line.substring(searchIndent.length);
+    return line;
+  });
+}
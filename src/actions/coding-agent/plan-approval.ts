@@ -0,0 +1,195 @@
+/**
+ * Plan Approval
+ *
+ * Renders the planner's output as a checklist comment on the issue and
+ * reads it back once a maintainer approves it. Maintainers can edit the
+ * comment before approving (uncheck files, add files, rewrite the
+ * approach); the edited comment is the plan that gets implemented.
+ */
+
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** Marks a comment as an agent plan */
+export const PLAN_MARKER = '<!-- agent-plan -->';
+
+/** Marks a plan still waiting for approval */
+export const PLAN_PENDING_MARKER = '<!-- agent-plan-status:pending -->';
+
+/** Marks a plan a maintainer approved */
+const PLAN_APPROVED_MARKER = '<!-- agent-plan-status:approved -->';
+
+/** Plan fields shown in (and read back from) the comment */
+export interface ApprovalPlan {
+  summary: string;
+  files: string[];
+  approach: string;
+  estimatedComplexity: 'low' | 'medium' | 'high';
+  risks?: string[];
+  largeDeletions?: string[];
+}
+
+/** A plan comment on the issue */
+export interface PlanComment {
+  id: number;
+  body: string;
+}
+
+/**
+ * Renders a plan as an issue comment
+ *
+ * @param approvable - Add the approval instructions (issue tasks only)
+ */
+export function formatPlanComment(plan: ApprovalPlan, approvable: boolean): string {
+  let body = `## 📝 Implementation Plan\n\n${PLAN_MARKER}\n`;
+  body += `**Summary:** ${plan.summary}\n\n`;
+
+  body += `### Files\n\n`;
+  plan.files.forEach((file) => {
+    body += `- [x] \`${file}\`\n`;
+  });
+
+  body += `\n### Approach\n\n${plan.approach.trim()}\n\n`;
+  body += `### Complexity\n\n${plan.estimatedComplexity}\n\n`;
+
+  body += `### Risks\n\n`;
+  if (plan.risks && plan.risks.length > 0) {
+    plan.risks.forEach((risk) => {
+      body += `- ${risk}\n`;
+    });
+  } else {
+    body += `- None identified\n`;
+  }
+
+  if (plan.largeDeletions && plan.largeDeletions.length > 0) {
+    body += `\n### Large Deletions\n\n`;
+    plan.largeDeletions.forEach((file) => {
+      body += `- \`${file}\`\n`;
+    });
+  }
+
+  body += `\n---\n`;
+  if (approvable) {
+    body += `${PLAN_PENDING_MARKER}\n`;
+    body += `**Approval required.** A maintainer can reply \`/agent approve\` to implement this plan. ` +
+      `To change it, edit this comment: uncheck files to drop them, add \`- [x] \\\`path\\\`\` lines, or rewrite the approach. ` +
+      `Saving the edit approves the edited plan.\n`;
+  } else {
+    body += `*Dry run - no changes were made.*\n`;
+  }
+  return body;
+}
+
+/**
+ * Reads a plan back from a (possibly edited) plan comment
+ *
+ * @returns The plan, or null if the comment has no summary or checked files
+ */
+export function parsePlanComment(body: string): ApprovalPlan | null {
+  if (!body.includes(PLAN_MARKER)) return null;
+
+  // Ignore the footer with the approval instructions
+  const footer = body.search(/\n---\s*\n(?:<!-- agent-plan-status|\*Dry run)/);
+  const content = (footer === -1 ? body : body.substring(0, footer)).replace(/\r\n/g, '\n');
+
+  const summary = content.match(/\*\*Summary:\*\*\s*(.+)/)?.[1]?.trim();
+  const sections = new Map<string, string>();
+  for (const part of content.split(/^### /m).slice(1)) {
+    const newline = part.indexOf('\n');
+    const heading = (newline === -1 ? part : part.substring(0, newline)).trim().toLowerCase();
+    sections.set(heading, newline === -1 ? '' : part.substring(newline + 1).trim());
+  }
+
+  const files: string[] = [];
+  for (const match of (sections.get('files') || '').matchAll(/^\s*[-*] \[[xX]\] `?([^`\s]+)`?/gm)) {
+    if (match[1]) files.push(match[1]);
+  }
+  if (!summary || files.length === 0) return null;
+
+  const complexity = (sections.get('complexity') || '').toLowerCase().match(/low|medium|high/)?.[0];
+  const risks = bulletItems(sections.get('risks') || '').filter((risk) => risk !== 'None identified');
+  const largeDeletions = bulletItems(sections.get('large deletions') || '').map((item) => item.replace(/`/g, ''));
+
+  return {
+    summary,
+    files,
+    approach: sections.get('approach') || summary,
+    estimatedComplexity: (complexity as ApprovalPlan['estimatedComplexity'] | undefined) ?? 'medium',
+    risks,
+    largeDeletions: largeDeletions.length > 0 ? largeDeletions : undefined,
+  };
+}
+
+/**
+ * Checks if a plan comment is still waiting for approval
+ */
+export function isPlanPending(body: string): boolean {
+  return body.includes(PLAN_MARKER) && body.includes(PLAN_PENDING_MARKER);
+}
+
+/**
+ * Replaces the approval instructions with an approval note
+ */
+export function markPlanApproved(body: string, approver: string): string {
+  const note = `${PLAN_APPROVED_MARKER}\n✅ **Approved by @${approver}** - implementation started.\n`;
+  const start = body.indexOf(PLAN_PENDING_MARKER);
+  if (start !== -1) return body.substring(0, start) + note;
+  if (body.includes(PLAN_APPROVED_MARKER)) return body;
+  return `${body.trimEnd()}\n\n---\n${note}`;
+}
+
+/**
+ * Finds the plan comment to approve: the given comment, or the latest plan on the issue
+ */
+export async function findPlanComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  commentId?: number
+): Promise<PlanComment | null> {
+  try {
+    if (commentId) {
+      const { data } = await octokit.rest.issues.getComment({ owner, repo, comment_id: commentId });
+      return data.body?.includes(PLAN_MARKER) ? { id: data.id, body: data.body } : null;
+    }
+
+    const { data: comments } = await octokit.rest.issues.listComments({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      per_page: 100,
+    });
+    for (let i = comments.length - 1; i >= 0; i--) {
+      const comment = comments[i];
+      if (comment?.body?.includes(PLAN_MARKER) && comment.user?.type === 'Bot') {
+        return { id: comment.id, body: comment.body };
+      }
+    }
+    return null;
+  } catch (error) {
+    core.warning(`Failed to find plan comment: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Checks if a user has write access to the repository
+ */
+export async function isMaintainer(octokit: Octokit, owner: string, repo: string, username: string): Promise<boolean> {
+  try {
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    return data.permission === 'admin' || data.permission === 'write';
+  } catch {
+    return false;
+  }
+}
+
+function bulletItems(section: string): string[] {
+  return section
+    .split('\n')
+    .map((line) => line.match(/^\s*[-*]\s+(.+)/)?.[1]?.trim())
+    .filter((item): item is string => !!item);
+}
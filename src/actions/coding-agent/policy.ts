@@ -0,0 +1,300 @@
+/**
+ * Change Policy
+ *
+ * Repository-defined limits on what the coding agent may change:
+ * protected paths, per-change size limits and forbidden operations.
+ * The policy is read from the default branch so an agent branch can
+ * never loosen it, and is enforced both while generating and again
+ * right before committing.
+ */
+
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+import { measureDeletion } from './patch-applier.js';
+import type { FileChange } from './file-changes.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** File operations the policy can forbid */
+export type PolicyOperation = 'create' | 'modify' | 'delete';
+
+/** Policy loaded from the repository */
+export interface AgentPolicy {
+  /** Globs the agent may never create, modify or delete */
+  protectedPaths: string[];
+  /** Maximum files in one change (0 = unlimited) */
+  maxFiles: number;
+  /** Maximum added lines across the change (0 = unlimited) */
+  maxAddedLines: number;
+  /** Maximum removed lines across the change (0 = unlimited) */
+  maxRemovedLines: number;
+  /** Operations forbidden under specific globs, e.g. no deletes under src/ */
+  forbiddenOperations: Array<{ operation: PolicyOperation; paths: string[] }>;
+}
+
+/** A single policy rule broken by a change */
+export interface PolicyViolation {
+  rule: 'protected-path' | 'forbidden-operation' | 'max-files' | 'max-added-lines' | 'max-removed-lines';
+  path?: string;
+  message: string;
+}
+
+/** A change checked against the policy */
+export type PolicyChange = Pick<FileChange, 'path' | 'content' | 'operation' | 'from' | 'encoding' | 'moveOnly'>;
+
+/** Default policy file location */
+export const DEFAULT_POLICY_FILE = '.github/agent-policy.json';
+
+/** Applied when the repository has no policy file */
+export const DEFAULT_POLICY: AgentPolicy = {
+  protectedPaths: [
+    DEFAULT_POLICY_FILE,
+    '.github/workflows/*',
+    'LICENSE*',
+    'package.json',
+    'package-lock.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+  ],
+  maxFiles: 0,
+  maxAddedLines: 0,
+  maxRemovedLines: 0,
+  forbiddenOperations: [],
+};
+
+/**
+ * Thrown when a change set breaks the policy at commit time
+ */
+export class PolicyViolationError extends Error {
+  constructor(
+    message: string,
+    public readonly violations: PolicyViolation[]
+  ) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * Loads the policy from the repository's default branch; the policy file
+ * is protected even when the defaults apply
+ *
+ * @param policyFile - Repository path of the JSON policy file
+ */
+export async function loadAgentPolicy(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  policyFile: string = DEFAULT_POLICY_FILE
+): Promise<AgentPolicy> {
+  try {
+    const { data } = await octokit.rest.repos.getContent({ owner, repo, path: policyFile });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      return protectPolicyFile(DEFAULT_POLICY, policyFile);
+    }
+    const policy = parsePolicy(Buffer.from(data.content, 'base64').toString('utf-8'), policyFile);
+    core.info(`Loaded agent policy from ${policyFile}`);
+    return policy;
+  } catch (error) {
+    if ((error as { status?: number })?.status !== 404) {
+      core.warning(`Failed to load agent policy, using defaults: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return protectPolicyFile(DEFAULT_POLICY, policyFile);
+  }
+}
+
+/**
+ * Parses a policy file; missing fields fall back to the defaults and the
+ * policy file itself is always protected
+ *
+ * @param policyFile - Repository path the policy was read from
+ */
+export function parsePolicy(json: string, policyFile: string = DEFAULT_POLICY_FILE): AgentPolicy {
+  const raw = JSON.parse(json) as Partial<AgentPolicy>;
+  const protectedPaths = Array.isArray(raw.protectedPaths)
+    ? raw.protectedPaths.filter((p): p is string => typeof p === 'string')
+    : DEFAULT_POLICY.protectedPaths;
+
+  return {
+    protectedPaths: Array.from(new Set([policyFile, ...protectedPaths])),
+    maxFiles: nonNegative(raw.maxFiles),
+    maxAddedLines: nonNegative(raw.maxAddedLines),
+    maxRemovedLines: nonNegative(raw.maxRemovedLines),
+    forbiddenOperations: Array.isArray(raw.forbiddenOperations)
+      ? raw.forbiddenOperations.filter(
+          (rule) => rule && ['create', 'modify', 'delete'].includes(rule.operation) && Array.isArray(rule.paths)
+        )
+      : [],
+  };
+}
+
+/**
+ * Checks a single file change against the per-file rules
+ */
+export function checkFilePolicy(policy: AgentPolicy, path: string, operation: PolicyOperation): PolicyViolation | null {
+  const protectedGlob = policy.protectedPaths.find((glob) => matchesGlob(path, glob));
+  if (protectedGlob) {
+    return {
+      rule: 'protected-path',
+      path,
+      message: `${path} is protected by policy (${protectedGlob}) and must not be changed by the agent`,
+    };
+  }
+
+  const forbidden = policy.forbiddenOperations.find(
+    (rule) => rule.operation === operation && rule.paths.some((glob) => matchesGlob(path, glob))
+  );
+  if (forbidden) {
+    return {
+      rule: 'forbidden-operation',
+      path,
+      message: `${operation} is not allowed for ${path} (policy forbids ${operation} under ${forbidden.paths.join(', ')})`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Checks a change against the per-file rules; a rename deletes its old
+ * path and creates its new one
+ */
+export function checkChangePolicy(policy: AgentPolicy, change: PolicyChange): PolicyViolation[] {
+  const operations: Array<[string, PolicyOperation]> = change.operation !== 'rename'
+    ? [[change.path, change.operation]]
+    : change.from
+      ? [[change.from, 'delete'], [change.path, 'create']]
+      : [[change.path, 'create']];
+  return operations
+    .map(([path, operation]) => checkFilePolicy(policy, path, operation))
+    .filter((violation): violation is PolicyViolation => violation !== null);
+}
+
+/**
+ * Checks a whole change set against the policy
+ *
+ * @param readOriginal - Returns the current content of a path, or null if it doesn't exist
+ */
+export function evaluatePolicy(
+  policy: AgentPolicy,
+  changes: PolicyChange[],
+  readOriginal: (path: string) => string | null
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  for (const change of changes) {
+    violations.push(...checkChangePolicy(policy, change));
+  }
+
+  if (policy.maxFiles > 0 && changes.length > policy.maxFiles) {
+    violations.push({
+      rule: 'max-files',
+      message: `Change touches ${changes.length} files; policy allows at most ${policy.maxFiles}`,
+    });
+  }
+
+  if (policy.maxAddedLines > 0 || policy.maxRemovedLines > 0) {
+    let added = 0;
+    let removed = 0;
+    for (const change of changes) {
+      // Moved files and binary content have no lines to count
+      if (change.moveOnly || change.encoding === 'base64') continue;
+      const original = readOriginal(change.from ?? change.path) ?? '';
+      const updated = change.operation === 'delete' ? '' : change.content;
+      added += measureDeletion(updated, original).removedLines;
+      removed += measureDeletion(original, updated).removedLines;
+    }
+
+    if (policy.maxAddedLines > 0 && added > policy.maxAddedLines) {
+      violations.push({
+        rule: 'max-added-lines',
+        message: `Change adds ${added} lines; policy allows at most ${policy.maxAddedLines}`,
+      });
+    }
+    if (policy.maxRemovedLines > 0 && removed > policy.maxRemovedLines) {
+      violations.push({
+        rule: 'max-removed-lines',
+        message: `Change removes ${removed} lines; policy allows at most ${policy.maxRemovedLines}`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Throws PolicyViolationError if the change set breaks the policy
+ */
+export function enforcePolicy(
+  policy: AgentPolicy,
+  changes: PolicyChange[],
+  readOriginal: (path: string) => string | null
+): void {
+  const violations = evaluatePolicy(policy, changes, readOriginal);
+  if (violations.length > 0) {
+    throw new PolicyViolationError(
+      `Changes violate the agent policy: ${violations.map((v) => v.message).join('; ')}`,
+      violations
+    );
+  }
+}
+
+/**
+ * Matches a repository path against a gitignore-style glob.
+ * `**` spans directories, `*` and `?` stay within one segment, and a
+ * trailing slash matches everything under a directory. A pattern is
+ * anchored to the root only by a slash at its start or middle: otherwise
+ * it matches a file name (or, with a trailing slash, a directory) at any depth.
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  let pattern = glob.trim().replace(/^\.\//, '');
+  const directory = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) return false;
+
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (directory) {
+    return globToRegExp(anchored ? `${pattern}/**` : `**/${pattern}/**`).test(path);
+  }
+  const target = anchored ? path : path.substring(path.lastIndexOf('/') + 1);
+  return globToRegExp(pattern).test(target);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories; a trailing "**" matches everything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Adds the policy file to a policy's protected paths
+ */
+function protectPolicyFile(policy: AgentPolicy, policyFile: string): AgentPolicy {
+  if (policy.protectedPaths.includes(policyFile)) return policy;
+  return { ...policy, protectedPaths: [policyFile, ...policy.protectedPaths] };
+}
+
+function nonNegative(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
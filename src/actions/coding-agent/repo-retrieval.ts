@@ -0,0 +1,314 @@
+/**
+ * Repository Retrieval
+ *
+ * Gathers the real source the coding agent is about to change: the files
+ * named by the plan or the issue, files defining symbols the issue
+ * mentions, and their import neighbours, plus a file tree for orientation.
+ * Everything is read from the checkout and kept within size budgets so it
+ * can be injected into the planning and generation prompts.
+ */
+
+import * as path from 'path';
+import * as core from '@actions/core';
+import { grepRepositoryFiles, listRepositoryFiles, readWorkspaceFile } from './workspace.js';
+
+/** Why a file was retrieved, in priority order */
+export type RetrievalReason = 'planned' | 'mentioned' | 'symbol' | 'import-neighbour';
+
+/** A file loaded for the prompt */
+export interface RetrievedFile {
+  path: string;
+  content: string;
+  truncated: boolean;
+  reason: RetrievalReason;
+}
+
+/** Retrieved repository context */
+export interface RetrievalContext {
+  tree: string[];
+  treeTruncated: boolean;
+  files: RetrievedFile[];
+  /** Files that were relevant but did not fit in the budget */
+  omitted: string[];
+}
+
+/** Size budgets for retrieval */
+export interface RetrievalOptions {
+  /** Ref to read from (the PR branch for feedback tasks) */
+  ref?: string;
+  /** Maximum characters per file before truncation */
+  maxFileChars?: number;
+  /** Maximum characters across all retrieved files */
+  maxTotalChars?: number;
+  /** Maximum entries in the file tree */
+  maxTreeEntries?: number;
+}
+
+const DEFAULT_MAX_FILE_CHARS = 40 * 1024;
+const DEFAULT_MAX_TOTAL_CHARS = 200 * 1024;
+const DEFAULT_MAX_TREE_ENTRIES = 500;
+
+/** Symbols looked up from the task text */
+const MAX_SYMBOLS = 10;
+
+/** Files retrieved per symbol / per import direction */
+const MAX_FILES_PER_LOOKUP = 5;
+
+/** Directories never shown in the tree or retrieved */
+const SKIP_PREFIXES = ['node_modules/', 'dist/', 'build/', 'coverage/', 'vendor/', '.git/'];
+
+/** Source extensions whose imports we follow */
+const IMPORT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+/** Relative import/require specifiers in JS/TS sources */
+const IMPORT_SPECIFIER = /(?:import|export)\s[^'"]*?from\s*['"](\.{1,2}\/[^'"]+)['"]|(?:import|require)\s*\(\s*['"](\.{1,2}\/[^'"]+)['"]\s*\)/g;
+
+/** Common words that look like identifiers but are not worth a lookup */
+const SYMBOL_STOPWORDS = new Set(['GitHub', 'JavaScript', 'TypeScript', 'README', 'JSON', 'YAML', 'TODO']);
+
+/**
+ * Builds the retrieval context for a set of seed files and the task text
+ *
+ * @param seedPaths - Files named by the plan
+ * @param taskText - Issue or PR text used to find mentioned files and symbols
+ * @param options - Ref and size budgets
+ */
+export function buildRetrievalContext(
+  seedPaths: string[],
+  taskText: string,
+  options: RetrievalOptions = {}
+): RetrievalContext {
+  const maxFileChars = options.maxFileChars ?? DEFAULT_MAX_FILE_CHARS;
+  const maxTotalChars = options.maxTotalChars ?? DEFAULT_MAX_TOTAL_CHARS;
+  const maxTreeEntries = options.maxTreeEntries ?? DEFAULT_MAX_TREE_ENTRIES;
+
+  const allFiles = listRepositoryFiles(options.ref).filter(
+    (f) => !SKIP_PREFIXES.some((prefix) => f.startsWith(prefix))
+  );
+  const known = new Set(allFiles);
+
+  // Collect candidates in priority order; the first reason wins
+  const candidates = new Map<string, RetrievalReason>();
+  const addCandidate = (file: string, reason: RetrievalReason) => {
+    if (known.has(file) && !candidates.has(file)) candidates.set(file, reason);
+  };
+
+  seedPaths.map(normalizePath).forEach((f) => addCandidate(f, 'planned'));
+  extractMentionedPaths(taskText, allFiles).forEach((f) => addCandidate(f, 'mentioned'));
+
+  for (const symbol of extractSymbols(taskText)) {
+    findSymbolDefinitions(symbol, options.ref)
+      .slice(0, MAX_FILES_PER_LOOKUP)
+      .forEach((f) => addCandidate(f, 'symbol'));
+  }
+
+  // Import neighbours of everything found so far
+  for (const file of Array.from(candidates.keys())) {
+    const content = readWorkspaceFile(file, options.ref);
+    if (content === null) continue;
+    findImports(file, content, known).slice(0, MAX_FILES_PER_LOOKUP).forEach((f) => addCandidate(f, 'import-neighbour'));
+    findImporters(file, known, options.ref).slice(0, MAX_FILES_PER_LOOKUP).forEach((f) => addCandidate(f, 'import-neighbour'));
+  }
+
+  const files: RetrievedFile[] = [];
+  const omitted: string[] = [];
+  let totalChars = 0;
+
+  for (const [file, reason] of candidates) {
+    const content = readWorkspaceFile(file, options.ref);
+    if (content === null) continue;
+
+    const remaining = maxTotalChars - totalChars;
+    if (remaining <= 0) {
+      omitted.push(file);
+      continue;
+    }
+
+    const limit = Math.min(maxFileChars, remaining);
+    const truncated = content.length > limit;
+    const kept = truncated ? content.substring(0, limit) : content;
+    files.push({ path: file, content: kept, truncated, reason });
+    totalChars += kept.length;
+  }
+
+  core.info(`Retrieved ${files.length} file(s) (${totalChars} chars) from the repository` +
+    (omitted.length > 0 ? `, ${omitted.length} omitted for size` : ''));
+
+  return {
+    tree: allFiles.slice(0, maxTreeEntries),
+    treeTruncated: allFiles.length > maxTreeEntries,
+    files,
+    omitted,
+  };
+}
+
+/**
+ * Formats retrieved context as a prompt section. Files already changed
+ * by the agent are shown with their updated content.
+ *
+ * @param context - Retrieved context
+ * @param overrides - Current content of files the agent has already changed
+ */
+export function formatRetrievalContext(
+  context: RetrievalContext,
+  overrides: Map<string, string | null> = new Map()
+): string {
+  if (context.tree.length === 0 && context.files.length === 0) return '';
+
+  let section = `## Repository File Tree\n\n`;
+  section += '```\n' + context.tree.join('\n') + '\n```\n';
+  if (context.treeTruncated) section += '*(tree truncated)*\n';
+
+  if (context.files.length > 0 || overrides.size > 0) {
+    section += `\n## Current File Contents\n\n`;
+    section += `These are the real contents of the relevant files. Base all edits on them.\n\n`;
+  }
+
+  for (const file of context.files) {
+    const override = overrides.get(file.path);
+    if (override === null) {
+      section += `### ${file.path} (${file.reason}) - deleted by your changes\n\n`;
+      continue;
+    }
+
+    const content = override ?? file.content;
+    const label = override !== undefined ? 'updated by your changes' : file.reason;
+    section += `### ${file.path} (${label})\n\n`;
+    section += '```' + languageFor(file.path) + '\n' + withLineNumbers(content) + '\n```\n';
+    if (file.truncated && override === undefined) section += '*(file truncated for context limits)*\n';
+    section += '\n';
+  }
+
+  // Files the agent created or changed outside the retrieved set
+  const shown = new Set(context.files.map((f) => f.path));
+  for (const [filePath, content] of overrides) {
+    if (shown.has(filePath) || content === null) continue;
+    section += `### ${filePath} (written by your changes)\n\n`;
+    section += '```' + languageFor(filePath) + '\n' + withLineNumbers(content) + '\n```\n\n';
+  }
+
+  if (context.omitted.length > 0) {
+    section += `Other relevant files not shown (size budget): ${context.omitted.join(', ')}\n`;
+  }
+
+  return section;
+}
+
+/**
+ * Finds repository paths mentioned verbatim in the task text
+ */
+export function extractMentionedPaths(text: string, allFiles: string[]): string[] {
+  const mentioned: string[] = [];
+  const tokens = text.match(/[A-Za-z0-9_./-]+\.[A-Za-z0-9]+/g) || [];
+  const byBasename = new Map<string, string[]>();
+  for (const file of allFiles) {
+    const base = path.posix.basename(file);
+    byBasename.set(base, [...(byBasename.get(base) || []), file]);
+  }
+  const known = new Set(allFiles);
+
+  for (const token of tokens) {
+    const normalized = normalizePath(token);
+    if (known.has(normalized)) {
+      mentioned.push(normalized);
+      continue;
+    }
+    // A bare filename is only useful when it is unambiguous
+    const matches = byBasename.get(path.posix.basename(normalized));
+    if (matches && matches.length === 1) mentioned.push(matches[0]!);
+  }
+
+  return Array.from(new Set(mentioned));
+}
+
+/**
+ * Extracts identifiers worth looking up: code-formatted names and
+ * camelCase/PascalCase words
+ */
+export function extractSymbols(text: string): string[] {
+  const symbols: string[] = [];
+
+  for (const match of text.matchAll(/`([A-Za-z_$][\w$]*)(?:\(\))?`/g)) {
+    if (match[1]) symbols.push(match[1]);
+  }
+  for (const match of text.matchAll(/\b([a-z]+[A-Z][A-Za-z0-9]*|[A-Z][a-z0-9]+[A-Z][A-Za-z0-9]*)\b/g)) {
+    if (match[1]) symbols.push(match[1]);
+  }
+
+  return Array.from(new Set(symbols))
+    .filter((s) => s.length >= 4 && !SYMBOL_STOPWORDS.has(s))
+    .slice(0, MAX_SYMBOLS);
+}
+
+/**
+ * Finds files that define a symbol (function, class, type, variable)
+ */
+function findSymbolDefinitions(symbol: string, ref?: string): string[] {
+  const pattern = `(function|class|interface|type|enum|const|let|var|def|func|struct)[[:space:]]+${symbol}([^A-Za-z0-9_$]|$)`;
+  return grepRepositoryFiles(pattern, ref).filter((f) => !SKIP_PREFIXES.some((prefix) => f.startsWith(prefix)));
+}
+
+/**
+ * Resolves the relative imports of a JS/TS file to repository paths
+ */
+export function findImports(file: string, content: string, known: Set<string>): string[] {
+  if (!IMPORT_EXTENSIONS.includes(path.posix.extname(file))) return [];
+
+  const imports: string[] = [];
+  for (const match of content.matchAll(IMPORT_SPECIFIER)) {
+    const specifier = match[1] || match[2];
+    if (!specifier) continue;
+    const resolved = resolveImport(file, specifier, known);
+    if (resolved) imports.push(resolved);
+  }
+  return Array.from(new Set(imports));
+}
+
+/**
+ * Finds JS/TS files that import the given file
+ */
+function findImporters(file: string, known: Set<string>, ref?: string): string[] {
+  if (!IMPORT_EXTENSIONS.includes(path.posix.extname(file))) return [];
+
+  const stem = path.posix.basename(file).replace(/\.[^.]+$/, '');
+  const escaped = stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const importers: string[] = [];
+
+  for (const candidate of grepRepositoryFiles(`['"]\\.{1,2}/([^'"]*/)?${escaped}(\\.[a-z]+)?['"]`, ref)) {
+    if (candidate === file || !known.has(candidate)) continue;
+    const content = readWorkspaceFile(candidate, ref);
+    if (content && findImports(candidate, content, known).includes(file)) {
+      importers.push(candidate);
+    }
+  }
+  return importers;
+}
+
+function resolveImport(fromFile: string, specifier: string, known: Set<string>): string | null {
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier));
+  // ESM TypeScript imports use the emitted .js extension
+  const stem = base.replace(/\.(m|c)?js$/, '');
+  const candidates = [
+    base,
+    ...IMPORT_EXTENSIONS.map((ext) => stem + ext),
+    ...IMPORT_EXTENSIONS.map((ext) => `${stem}/index${ext}`),
+  ];
+  return candidates.find((c) => known.has(c)) ?? null;
+}
+
+function normalizePath(p: string): string {
+  return p.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+/, '');
+}
+
+function withLineNumbers(content: string): string {
+  return content
+    .replace(/\n$/, '')
+    .split('\n')
+    .map((line, i) => `${String(i + 1).padStart(4)} | ${line}`)
+    .join('\n');
+}
+
+function languageFor(file: string): string {
+  const ext = path.posix.extname(file).substring(1);
+  return ext === 'yml' ? 'yaml' : ext;
+}
@@ -0,0 +1,197 @@
+/**
+ * Agent PR Reverts
+ *
+ * Reverts a merged agent PR by undoing its diff (merge base → PR head) on
+ * top of the current base branch. Each file is merged three ways with the
+ * PR's version as the base, so later commits to the same files survive
+ * and only the PR's own changes are backed out. Works the same for merge,
+ * squash and rebase merges since it never looks at the merge commit.
+ */
+
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+import { fetchFileContent, mergeFile, UnmergeableFileError, type UnmergeableFile } from './conflict-resolver.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** The merged PR to revert */
+export interface RevertTarget {
+  number: number;
+  /** Branch the PR merged into */
+  baseBranch: string;
+  /** Base tip when the PR was last updated */
+  baseSha: string;
+  headSha: string;
+}
+
+/** Outcome of undoing a PR's diff on the current base branch */
+export interface RevertPlan {
+  /** Base branch tip the revert is built on */
+  targetSha: string;
+  /** Final content of each file the revert changes (null deletes it) */
+  reverted: Map<string, string | null>;
+  /** Git file mode of each restored file (e.g. 100755 for executables) */
+  modes: Map<string, FileMode>;
+  /** Files later commits changed in ways that overlap the PR's changes */
+  conflicts: string[];
+  /** Files that cannot be read for reverting (binary or over 1MB) */
+  unmergeable: UnmergeableFile[];
+}
+
+/** Git modes of the regular files a revert can restore */
+export type FileMode = '100644' | '100755';
+
+/**
+ * Gets the branch a PR's revert is pushed to
+ */
+export function getRevertBranch(prNumber: number): string {
+  return `agent/revert-pr-${prNumber}`;
+}
+
+/**
+ * Finds the revert PR named in the "Agent Changes Reverted" issue comment
+ */
+export function parseRevertPullRequest(comment: string): number | null {
+  const match = /is being reverted by #(\d+)/.exec(comment);
+  return match ? parseInt(match[1]!, 10) : null;
+}
+
+/**
+ * Works out the file contents that undo a PR on its base branch
+ */
+export async function planRevert(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  target: RevertTarget
+): Promise<RevertPlan> {
+  const { data: comparison } = await octokit.rest.repos.compareCommits({
+    owner,
+    repo,
+    base: target.baseSha,
+    head: target.headSha,
+  });
+  const mergeBaseSha = comparison.merge_base_commit.sha;
+
+  const { data: targetRef } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${target.baseBranch}` });
+  const targetSha = targetRef.object.sha;
+
+  // A rename is undone as two files: the new path goes away, the old one comes back
+  const paths = new Set<string>();
+  for (const file of comparison.files || []) {
+    paths.add(file.filename);
+    if (file.previous_filename) paths.add(file.previous_filename);
+  }
+
+  const reverted = new Map<string, string | null>();
+  const conflicts: string[] = [];
+  const unmergeable: UnmergeableFile[] = [];
+  for (const path of paths) {
+    let current: string | null;
+    let result: ReturnType<typeof mergeFile>;
+    try {
+      current = await fetchFileContent(octokit, owner, repo, path, targetSha);
+      result = mergeFile({
+        path,
+        base: await fetchFileContent(octokit, owner, repo, path, target.headSha),
+        ours: current,
+        theirs: await fetchFileContent(octokit, owner, repo, path, mergeBaseSha),
+      });
+    } catch (error) {
+      if (!(error instanceof UnmergeableFileError)) throw error;
+      unmergeable.push({ path, reason: error.message });
+      continue;
+    }
+
+    if (!result.clean) {
+      conflicts.push(path);
+    } else if (result.content !== current) {
+      reverted.set(path, result.content);
+    }
+  }
+
+  // A restored file gets its mode from before the PR, or keeps its current one
+  const modes = new Map<string, FileMode>();
+  if (reverted.size > 0) {
+    const before = await readFileModes(octokit, owner, repo, mergeBaseSha);
+    const now = await readFileModes(octokit, owner, repo, targetSha);
+    for (const [path, content] of reverted) {
+      const mode = before.get(path) ?? now.get(path);
+      if (content !== null && mode) modes.set(path, mode);
+    }
+  }
+
+  core.info(
+    `Revert of #${target.number}: ${reverted.size} file(s) to restore, ${conflicts.length} conflict(s), ` +
+      `${unmergeable.length} unreadable`
+  );
+  return { targetSha, reverted, modes, conflicts, unmergeable };
+}
+
+/**
+ * Reads the mode of every file in a commit's tree
+ */
+async function readFileModes(octokit: Octokit, owner: string, repo: string, sha: string): Promise<Map<string, FileMode>> {
+  const { data } = await octokit.rest.git.getTree({ owner, repo, tree_sha: sha, recursive: 'true' });
+  if (data.truncated) core.warning(`The tree of ${sha.substring(0, 7)} is too large to list; unlisted files are restored as 100644`);
+
+  const modes = new Map<string, FileMode>();
+  for (const entry of data.tree) {
+    if (entry.type === 'blob' && entry.path && (entry.mode === '100644' || entry.mode === '100755')) {
+      modes.set(entry.path, entry.mode);
+    }
+  }
+  return modes;
+}
+
+/**
+ * Commits the revert on top of the base branch and points the revert branch at it
+ *
+ * @returns The revert commit SHA
+ */
+export async function createRevertBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  plan: RevertPlan,
+  branch: string,
+  message: string
+): Promise<string> {
+  const { data: targetCommit } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: plan.targetSha });
+
+  const tree: Array<{ path: string; mode: FileMode; type: 'blob'; sha: string | null }> = [];
+  for (const [path, content] of plan.reverted) {
+    const mode = plan.modes.get(path) ?? '100644';
+    if (content === null) {
+      tree.push({ path, mode, type: 'blob', sha: null });
+      continue;
+    }
+    const { data: blob } = await octokit.rest.git.createBlob({ owner, repo, content, encoding: 'utf-8' });
+    tree.push({ path, mode, type: 'blob', sha: blob.sha });
+  }
+
+  const { data: newTree } = await octokit.rest.git.createTree({
+    owner,
+    repo,
+    base_tree: targetCommit.tree.sha,
+    tree: tree as any, // GitHub types don't allow sha: null for deletions
+  });
+  const { data: commit } = await octokit.rest.git.createCommit({
+    owner,
+    repo,
+    message,
+    tree: newTree.sha,
+    parents: [plan.targetSha],
+  });
+
+  try {
+    await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: commit.sha });
+  } catch (error) {
+    // A revert branch left over from an earlier attempt is replaced
+    if ((error as { status?: number })?.status !== 422) throw error;
+    await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: commit.sha, force: true });
+  }
+
+  core.info(`Revert commit ${commit.sha.substring(0, 7)} pushed to ${branch}`);
+  return commit.sha;
+}
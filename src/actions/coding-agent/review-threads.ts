@@ -0,0 +1,224 @@
+/**
+ * Review Threads
+ *
+ * Tracks the open review threads of a PR so the agent can answer each
+ * one: the model reports per-thread outcomes alongside its changes, the
+ * agent replies in the thread with what it changed (or why it disagreed),
+ * and addressed threads are resolved through GraphQL.
+ */
+
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** A comment in a review thread */
+export interface ThreadComment {
+  /** REST id, used to reply in the thread */
+  id: number;
+  author: string;
+  body: string;
+}
+
+/** An unresolved review thread */
+export interface ReviewThread {
+  /** Short key the model refers to the thread by (T1, T2, ...) */
+  key: string;
+  /** GraphQL node id, used to resolve the thread */
+  id: string;
+  path: string;
+  line: number | null;
+  /** The commented lines changed since the comment was made */
+  isOutdated: boolean;
+  comments: ThreadComment[];
+}
+
+/** What the agent did about a thread */
+export interface ThreadOutcome {
+  key: string;
+  status: 'addressed' | 'declined';
+  /** Reply posted in the thread */
+  reply: string;
+}
+
+/** Result of answering a thread on the PR */
+export interface ThreadReport {
+  thread: ReviewThread;
+  outcome: ThreadOutcome;
+  resolved: boolean;
+}
+
+/** Instructions appended to the generation prompt when threads are open */
+export const THREAD_OUTCOME_INSTRUCTIONS = `Report what you did about each thread in a "threads" array in your JSON response:
+
+"threads": [
+  { "id": "T1", "status": "addressed", "reply": "What you changed, in one or two sentences" },
+  { "id": "T2", "status": "declined", "reply": "Why the current code is right, in one or two sentences" }
+]
+
+Report a thread once it is handled; later reports for the same thread replace earlier ones. Only decline with a concrete technical reason.`;
+
+const THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100) {
+          nodes {
+            id
+            isResolved
+            isOutdated
+            path
+            line
+            originalLine
+            comments(first: 50) {
+              nodes { databaseId body author { login } }
+            }
+          }
+        }
+      }
+    }
+  }`;
+
+const RESOLVE_MUTATION = `
+  mutation($threadId: ID!) {
+    resolveReviewThread(input: { threadId: $threadId }) {
+      thread { id isResolved }
+    }
+  }`;
+
+interface ThreadsQueryResult {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        nodes: Array<{
+          id: string;
+          isResolved: boolean;
+          isOutdated: boolean;
+          path: string;
+          line: number | null;
+          originalLine: number | null;
+          comments: { nodes: Array<{ databaseId: number; body: string; author: { login: string } | null }> };
+        }>;
+      };
+    } | null;
+  };
+}
+
+/**
+ * Loads the PR's unresolved review threads
+ *
+ * @returns The threads, or an empty list if they could not be loaded
+ */
+export async function loadReviewThreads(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<ReviewThread[]> {
+  try {
+    const result = await octokit.graphql<ThreadsQueryResult>(THREADS_QUERY, { owner, repo, number: prNumber });
+    const nodes = result.repository.pullRequest?.reviewThreads.nodes ?? [];
+    return nodes
+      .filter((node) => !node.isResolved && node.comments.nodes.length > 0)
+      .map((node, index) => ({
+        key: `T${index + 1}`,
+        id: node.id,
+        path: node.path,
+        line: node.line ?? node.originalLine,
+        isOutdated: node.isOutdated,
+        comments: node.comments.nodes.map((c) => ({ id: c.databaseId, author: c.author?.login ?? 'ghost', body: c.body })),
+      }));
+  } catch (error) {
+    core.warning(`Failed to load review threads: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
+
+/**
+ * Formats the threads for the planning and generation prompts
+ */
+export function formatReviewThreads(threads: ReviewThread[]): string {
+  let section = `### Open Review Threads\n\n`;
+  for (const thread of threads) {
+    const location = thread.line ? `${thread.path}:${thread.line}` : thread.path;
+    section += `#### [${thread.key}] ${location}${thread.isOutdated ? ' (outdated)' : ''}\n\n`;
+    for (const comment of thread.comments) {
+      section += `**@${comment.author}:** ${comment.body}\n\n`;
+    }
+  }
+  return section.trimEnd();
+}
+
+/**
+ * Validates the thread outcomes from a model response
+ */
+export function parseThreadOutcomes(raw: unknown, threads: ReviewThread[]): ThreadOutcome[] {
+  if (!Array.isArray(raw)) return [];
+
+  const keys = new Set(threads.map((t) => t.key));
+  const outcomes: ThreadOutcome[] = [];
+  for (const item of raw) {
+    const { id, status, reply } = (item ?? {}) as { id?: unknown; status?: unknown; reply?: unknown };
+    if (typeof id !== 'string' || !keys.has(id)) continue;
+    if (status !== 'addressed' && status !== 'declined') continue;
+    if (typeof reply !== 'string' || !reply.trim()) continue;
+    outcomes.push({ key: id, status, reply: reply.trim() });
+  }
+  return outcomes;
+}
+
+/**
+ * Replies in each thread the model reported on and resolves the addressed ones
+ *
+ * @param commitSha - Commit the addressed changes were pushed in
+ */
+export async function respondToReviewThreads(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  threads: ReviewThread[],
+  outcomes: Map<string, ThreadOutcome>,
+  commitSha: string
+): Promise<ThreadReport[]> {
+  const reports: ThreadReport[] = [];
+
+  for (const thread of threads) {
+    const outcome = outcomes.get(thread.key);
+    const firstComment = thread.comments[0];
+    if (!outcome || !firstComment) continue;
+
+    const body = outcome.status === 'addressed'
+      ? `✅ Addressed in ${commitSha.substring(0, 7)}: ${outcome.reply}`
+      : `💬 Not changed: ${outcome.reply}\n\nReply here if you still want this changed.`;
+
+    try {
+      await octokit.rest.pulls.createReplyForReviewComment({
+        owner,
+        repo,
+        pull_number: prNumber,
+        comment_id: firstComment.id,
+        body,
+      });
+    } catch (error) {
+      core.warning(`Failed to reply to thread on ${thread.path}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    // Declined threads stay open for the reviewer to answer
+    let resolved = false;
+    if (outcome.status === 'addressed') {
+      try {
+        await octokit.graphql(RESOLVE_MUTATION, { threadId: thread.id });
+        resolved = true;
+      } catch (error) {
+        core.warning(`Failed to resolve thread on ${thread.path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    reports.push({ thread, outcome, resolved });
+  }
+
+  core.info(`Answered ${reports.length}/${threads.length} review thread(s), resolved ${reports.filter((r) => r.resolved).length}`);
+  return reports;
+}
@@ -0,0 +1,265 @@
+/**
+ * Test Generation
+ *
+ * Finds exported functions in the touched modules that no test mentions,
+ * and checks model-written tests against the unchanged code: a generated
+ * test file is only kept if it passes in a scratch worktree of the target
+ * branch, so the resulting PR never contains failing or speculative tests.
+ */
+
+import * as path from 'path';
+import * as core from '@actions/core';
+import type { createOctokit } from '../../sdk/index.js';
+import { classifyFile } from './commit-planner.js';
+import { checkDeletionGuard } from './patch-applier.js';
+import { runVerification } from './verification.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** Test runners the agent can write tests for */
+export type TestFramework = 'vitest' | 'jest' | 'mocha';
+
+/** A generated test file */
+export interface GeneratedTest {
+  path: string;
+  content: string;
+  /** 'modify' extends an existing test file */
+  operation: 'create' | 'modify';
+  /** Functions the file was asked to cover */
+  functions: string[];
+}
+
+/** Generated tests split by whether they pass against the unchanged code */
+export interface TestValidation {
+  passing: GeneratedTest[];
+  failing: Array<{ test: GeneratedTest; output: string }>;
+}
+
+/** Source extensions test generation understands */
+const TESTABLE_SOURCE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+/**
+ * Gets the branch generated tests are pushed to
+ */
+export function getTestBranch(number: number): string {
+  return `agent/tests-${number}`;
+}
+
+/**
+ * Detects the test runner from package.json dependencies, then the test script
+ */
+export function detectTestFramework(packageJson: string | null): TestFramework | null {
+  if (!packageJson) return null;
+
+  let pkg: { dependencies?: Record<string, string>; devDependencies?: Record<string, string>; scripts?: Record<string, string> };
+  try {
+    pkg = JSON.parse(packageJson);
+  } catch {
+    return null;
+  }
+
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  const frameworks: TestFramework[] = ['vitest', 'jest', 'mocha'];
+  return (
+    frameworks.find((name) => name in deps) ??
+    frameworks.find((name) => new RegExp(`\\b${name}\\b`).test(pkg.scripts?.test || '')) ??
+    null
+  );
+}
+
+/**
+ * Gets the command that runs a single test file
+ *
+ * The command runs in a shell and the path comes from the model, so it is
+ * single-quoted.
+ */
+export function getTestCommand(framework: TestFramework, testPath: string): string {
+  const quoted = quoteShellArg(testPath.startsWith('-') ? `./${testPath}` : testPath);
+  switch (framework) {
+    case 'vitest':
+      return `npx vitest run ${quoted}`;
+    case 'jest':
+      return `npx jest --runTestsByPath ${quoted}`;
+    case 'mocha':
+      return `npx mocha ${quoted}`;
+  }
+}
+
+/**
+ * Quotes a value as a single POSIX shell word
+ */
+function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Checks if a path is a source module tests can be generated for
+ */
+export function isTestableSource(filePath: string): boolean {
+  return TESTABLE_SOURCE.test(filePath) && !filePath.endsWith('.d.ts') && classifyFile(filePath) === 'source';
+}
+
+/**
+ * Lists the functions and classes a module exports
+ */
+export function findExportedFunctions(content: string): string[] {
+  const patterns = [
+    /^export\s+(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/gm,
+    /^export\s+const\s+([A-Za-z_$][\w$]*)\s*(?::[^=\n]+)?=\s*(?:async\s*)?(?:function\b|\(|[A-Za-z_$][\w$]*\s*=>)/gm,
+    /^export\s+(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/gm,
+    /^(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=/gm,
+  ];
+
+  const names = new Set<string>();
+  for (const pattern of patterns) {
+    for (const match of content.matchAll(pattern)) {
+      if (match[1]) names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Lists the exported functions that no existing test mentions
+ */
+export function findUntestedFunctions(content: string, testContents: string[]): string[] {
+  return findExportedFunctions(content).filter(
+    (name) => !testContents.some((test) => new RegExp(`\\b${name.replace(/\$/g, '\\$')}\\b`).test(test))
+  );
+}
+
+/**
+ * Lists the titles of the `it`/`test` cases in a test file
+ */
+export function findTestTitles(content: string): string[] {
+  const pattern = /\b(?:it|test)(?:\.\w+)*\s*\(\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1/g;
+  return Array.from(content.matchAll(pattern), (match) => match[2]!);
+}
+
+/**
+ * Checks that a model-extended test file keeps the existing tests: every
+ * existing test title must still appear, and the deletion guard applies
+ *
+ * @returns Why the file is rejected, or null if it may replace the existing one
+ */
+export function checkExtendedTestFile(
+  testPath: string,
+  existing: string,
+  updated: string,
+  maxDeletionPercent: number
+): string | null {
+  const remaining = findTestTitles(updated);
+  const dropped: string[] = [];
+  for (const title of findTestTitles(existing)) {
+    const index = remaining.indexOf(title);
+    if (index === -1) dropped.push(title);
+    else remaining.splice(index, 1);
+  }
+  if (dropped.length > 0) {
+    return `it drops ${dropped.length} existing test(s): ${dropped.slice(0, 5).map((t) => `"${t}"`).join(', ')}`;
+  }
+
+  return checkDeletionGuard(testPath, existing, updated, maxDeletionPercent, false)?.reason ?? null;
+}
+
+/**
+ * Finds the existing tests for a module: `name.test.*` / `name.spec.*`
+ * next to it or in a sibling `__tests__` directory
+ */
+export function findTestFilesFor(sourcePath: string, repoFiles: string[]): string[] {
+  const { dir, name } = path.posix.parse(sourcePath);
+  const prefix = dir ? `${dir}/` : '';
+  return repoFiles.filter((file) => {
+    const parsed = path.posix.parse(file);
+    const inPlace = parsed.dir === dir || parsed.dir === `${prefix}__tests__`;
+    return inPlace && /^(.+)\.(test|spec)$/.exec(parsed.name)?.[1] === name;
+  });
+}
+
+/**
+ * Chooses where tests for a module go: its existing test file, otherwise
+ * the repo's convention (`__tests__/name.test.ext` or `name.test.ext`)
+ */
+export function getTestFilePath(sourcePath: string, repoFiles: string[]): string {
+  const existing = findTestFilesFor(sourcePath, repoFiles)[0];
+  if (existing) return existing;
+
+  const { dir, name, ext } = path.posix.parse(sourcePath);
+  const prefix = dir ? `${dir}/` : '';
+  const usesTestsDirs = repoFiles.some((file) => file.includes('/__tests__/') || file.startsWith('__tests__/'));
+  return usesTestsDirs ? `${prefix}__tests__/${name}.test${ext}` : `${prefix}${name}.test${ext}`;
+}
+
+/**
+ * Runs each generated test file on its own against the unchanged code
+ */
+export function validateGeneratedTests(
+  tests: GeneratedTest[],
+  framework: TestFramework,
+  options: { baseRef?: string; timeoutMs: number }
+): TestValidation {
+  const validation: TestValidation = { passing: [], failing: [] };
+
+  for (const test of tests) {
+    const result = runVerification([test], {
+      commands: [getTestCommand(framework, test.path)],
+      baseRef: options.baseRef,
+      timeoutMs: options.timeoutMs,
+    });
+
+    if (result.passed) {
+      validation.passing.push(test);
+    } else {
+      core.warning(`Discarding ${test.path}: it fails against the unchanged code`);
+      validation.failing.push({ test, output: result.error || result.results.at(-1)?.output || '' });
+    }
+  }
+
+  return validation;
+}
+
+/**
+ * Commits the tests on top of the base branch and points the test branch at it
+ *
+ * @returns The commit SHA
+ */
+export async function pushTestBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  baseBranch: string,
+  branch: string,
+  tests: GeneratedTest[],
+  message: string,
+  author?: { name: string; email: string }
+): Promise<string> {
+  const { data: baseRef } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${baseBranch}` });
+  const { data: baseCommit } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: baseRef.object.sha });
+
+  const tree: Array<{ path: string; mode: '100644'; type: 'blob'; sha: string }> = [];
+  for (const test of tests) {
+    const { data: blob } = await octokit.rest.git.createBlob({ owner, repo, content: test.content, encoding: 'utf-8' });
+    tree.push({ path: test.path, mode: '100644', type: 'blob', sha: blob.sha });
+  }
+
+  const { data: newTree } = await octokit.rest.git.createTree({ owner, repo, base_tree: baseCommit.tree.sha, tree });
+  const { data: commit } = await octokit.rest.git.createCommit({
+    owner,
+    repo,
+    message,
+    tree: newTree.sha,
+    parents: [baseRef.object.sha],
+    ...(author ? { author } : {}),
+  });
+
+  try {
+    await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: commit.sha });
+  } catch (error) {
+    // A test branch left over from an earlier run is replaced
+    if ((error as { status?: number })?.status !== 422) throw error;
+    await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: commit.sha, force: true });
+  }
+
+  core.info(`Test commit ${commit.sha.substring(0, 7)} pushed to ${branch}`);
+  return commit.sha;
+}
@@ -0,0 +1,294 @@
+/**
+ * Repository Tools
+ *
+ * Read-only tools the model can call in agent mode to explore the
+ * repository: list_dir, read_file, grep, git_log and run_tests. The tools
+ * see the checkout with the agent's in-progress changes overlaid, never
+ * write to the checkout, and share a per-task call budget.
+ */
+
+import * as core from '@actions/core';
+import type { AgentToolDefinition } from '../../sdk/index.js';
+import { getGitLog, grepRepositoryLines, listRepositoryFiles, readWorkspaceFile } from './workspace.js';
+import { runVerification, type VerifiableFile } from './verification.js';
+import { hasTextContent, isBinaryContent } from './file-changes.js';
+import type { AgentTranscript } from './transcript.js';
+
+/** Tool settings for one task */
+export interface RepositoryToolsOptions {
+  /** Ref to read from (the PR branch for feedback tasks) */
+  ref?: string;
+  /** Tool calls allowed across the whole task */
+  maxToolCalls: number;
+  /** Exact commands run_tests may execute */
+  allowedCommands: string[];
+  /** Timeout for a run_tests command */
+  commandTimeoutMs: number;
+  /** Current in-progress changes, overlaid on the checkout */
+  getChanges: () => VerifiableFile[];
+  transcript?: AgentTranscript;
+}
+
+/** Tool usage counters */
+export interface ToolUsage {
+  calls: number;
+  rejected: number;
+}
+
+/** Lines returned by a single read_file call */
+const MAX_READ_LINES = 400;
+
+/** Matches returned by a single grep call */
+const MAX_GREP_RESULTS = 100;
+
+/** Entries returned by a single list_dir call */
+const MAX_DIR_ENTRIES = 300;
+
+/** Characters of run_tests output returned to the model */
+const MAX_COMMAND_OUTPUT = 6000;
+
+/**
+ * Creates the read-only repository tools for a task
+ */
+export function createRepositoryTools(options: RepositoryToolsOptions): {
+  tools: AgentToolDefinition[];
+  usage: ToolUsage;
+} {
+  const usage: ToolUsage = { calls: 0, rejected: 0 };
+  let trackedFiles: string[] | null = null;
+  const getTrackedFiles = () => (trackedFiles ??= listRepositoryFiles(options.ref));
+
+  const getOverlay = () => {
+    const overlay = new Map<string, VerifiableFile>();
+    for (const change of options.getChanges()) {
+      // A rename removes its old path
+      if (change.operation === 'rename' && change.from) {
+        overlay.set(change.from, { path: change.from, content: '', operation: 'delete' });
+      }
+      overlay.set(change.path, change);
+    }
+    return overlay;
+  };
+
+  /** Wraps a handler with budget enforcement, error handling and transcript logging */
+  const withBudget = (
+    name: string,
+    handler: (args: Record<string, unknown>) => string
+  ): AgentToolDefinition['handler'] => {
+    return (args) => {
+      const started = Date.now();
+      let result: string;
+
+      if (usage.calls >= options.maxToolCalls) {
+        usage.rejected++;
+        result = `Tool budget exhausted (${options.maxToolCalls} calls). Stop exploring and respond with your changes now.`;
+      } else {
+        usage.calls++;
+        try {
+          result = handler(args);
+        } catch (error) {
+          result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+
+      core.info(`  tool ${name}(${JSON.stringify(args)}) [${usage.calls}/${options.maxToolCalls}]`);
+      options.transcript?.toolCall(name, args, result, Date.now() - started);
+      return result;
+    };
+  };
+
+  const tools: AgentToolDefinition[] = [
+    {
+      name: 'list_dir',
+      description: 'Lists files and subdirectories of a repository directory. Directories end with "/".',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Repository-relative directory, "." for the root' },
+        },
+      },
+      handler: withBudget('list_dir', (args) => {
+        const dir = normalizeToolPath(args.path ? stringArg(args, 'path') : '.');
+        const files = new Set(getTrackedFiles());
+        for (const change of getOverlay().values()) {
+          if (change.operation === 'delete') files.delete(change.path);
+          else files.add(change.path);
+        }
+        const entries = listDirectory(Array.from(files), dir);
+        if (entries.length === 0) return `No files found under "${dir || '.'}"`;
+        const shown = entries.slice(0, MAX_DIR_ENTRIES);
+        const more = entries.length - shown.length;
+        return shown.join('\n') + (more > 0 ? `\n... (${more} more entries)` : '');
+      }),
+    },
+    {
+      name: 'read_file',
+      description: `Reads a repository file with line numbers (your changes applied). Returns at most ${MAX_READ_LINES} lines per call; use start_line to page.`,
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Repository-relative file path' },
+          start_line: { type: 'number', description: 'First line to return (1-based, default 1)' },
+          end_line: { type: 'number', description: 'Last line to return (inclusive)' },
+        },
+        required: ['path'],
+      },
+      handler: withBudget('read_file', (args) => {
+        const filePath = normalizeToolPath(stringArg(args, 'path'));
+        const change = getOverlay().get(filePath);
+        if (change?.operation === 'delete') return `${filePath} has been deleted by your changes`;
+
+        if (change?.encoding === 'base64') return `${filePath} is a binary file`;
+        const content = change && !change.moveOnly
+          ? change.content
+          : readWorkspaceFile(change?.from ?? filePath, options.ref);
+        if (content === null) return `File not found: ${filePath}`;
+        if (isBinaryContent(content)) return `${filePath} is a binary file`;
+
+        const lines = content.split('\n');
+        const start = Math.max(1, numberArg(args, 'start_line') ?? 1);
+        const end = Math.min(lines.length, numberArg(args, 'end_line') ?? start + MAX_READ_LINES - 1, start + MAX_READ_LINES - 1);
+        const numbered = lines
+          .slice(start - 1, end)
+          .map((line, i) => `${String(start + i).padStart(5)} | ${line}`)
+          .join('\n');
+        const remaining = lines.length - end;
+        return numbered + (remaining > 0 ? `\n... (${remaining} more lines; call again with start_line=${end + 1})` : '');
+      }),
+    },
+    {
+      name: 'grep',
+      description: `Searches file contents with an extended regular expression. Returns up to ${MAX_GREP_RESULTS} "path:line:text" matches.`,
+      parameters: {
+        type: 'object',
+        properties: {
+          pattern: { type: 'string', description: 'Extended regular expression' },
+          path: { type: 'string', description: 'Optional directory or file to limit the search to' },
+        },
+        required: ['pattern'],
+      },
+      handler: withBudget('grep', (args) => {
+        const pattern = stringArg(args, 'pattern');
+        const scope = args.path ? normalizeToolPath(stringArg(args, 'path')) : '';
+        const regex = new RegExp(pattern);
+        const overlay = getOverlay();
+
+        // Checkout matches, minus files the agent has changed
+        const matches = grepRepositoryLines(pattern, options.ref, scope || undefined)
+          .filter((line) => !overlay.has(line.substring(0, line.indexOf(':'))));
+
+        // Matches in the agent's own changes
+        for (const change of overlay.values()) {
+          if (!hasTextContent(change) || !isWithin(change.path, scope)) continue;
+          change.content.split('\n').forEach((line, i) => {
+            if (regex.test(line)) matches.push(`${change.path}:${i + 1}:${line}`);
+          });
+        }
+
+        if (matches.length === 0) return 'No matches';
+        const shown = matches.slice(0, MAX_GREP_RESULTS);
+        const more = matches.length - shown.length;
+        return shown.join('\n') + (more > 0 ? `\n... (${more} more matches; narrow the pattern or path)` : '');
+      }),
+    },
+    {
+      name: 'git_log',
+      description: 'Shows recent commit history for the repository or a single path.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Optional file or directory' },
+          max_count: { type: 'number', description: 'Maximum commits (default 20, max 50)' },
+        },
+      },
+      handler: withBudget('git_log', (args) => {
+        const scope = args.path ? normalizeToolPath(stringArg(args, 'path')) : undefined;
+        const maxCount = Math.min(50, Math.max(1, numberArg(args, 'max_count') ?? 20));
+        return getGitLog(scope, maxCount, options.ref) || 'No history found';
+      }),
+    },
+  ];
+
+  if (options.allowedCommands.length > 0) {
+    tools.push({
+      name: 'run_tests',
+      description:
+        'Runs an allow-listed build or test command against the checkout with your current changes applied. ' +
+        `Allowed commands: ${options.allowedCommands.map((c) => `"${c}"`).join(', ')}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          command: { type: 'string', description: 'One of the allowed commands, exactly' },
+        },
+        required: ['command'],
+      },
+      handler: withBudget('run_tests', (args) => {
+        const command = stringArg(args, 'command').trim();
+        if (!options.allowedCommands.includes(command)) {
+          return `Command not allowed: "${command}". Allowed: ${options.allowedCommands.join(', ')}`;
+        }
+
+        const result = runVerification(options.getChanges(), {
+          commands: [command],
+          baseRef: options.ref,
+          timeoutMs: options.commandTimeoutMs,
+        });
+        if (result.error) return result.error;
+
+        const run = result.results[0];
+        if (!run) return 'Command did not run';
+        const status = run.timedOut ? 'timed out' : `exit code ${run.exitCode}`;
+        const output = run.output.length > MAX_COMMAND_OUTPUT ? run.output.slice(-MAX_COMMAND_OUTPUT) : run.output;
+        return `${status}\n${output}`;
+      }),
+    });
+  }
+
+  return { tools, usage };
+}
+
+/**
+ * Lists the immediate children of a directory from a flat file list
+ */
+export function listDirectory(files: string[], dir: string): string[] {
+  const prefix = dir ? `${dir}/` : '';
+  const entries = new Set<string>();
+  for (const file of files) {
+    if (!file.startsWith(prefix)) continue;
+    const rest = file.substring(prefix.length);
+    const slash = rest.indexOf('/');
+    entries.add(slash === -1 ? rest : `${rest.substring(0, slash)}/`);
+  }
+  return Array.from(entries).sort();
+}
+
+/**
+ * Normalizes a model-supplied path, rejecting anything outside the repository
+ */
+export function normalizeToolPath(input: string): string {
+  const trimmed = input.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+  const normalized = trimmed === '.' ? '' : trimmed;
+  if (normalized.startsWith('/') || normalized.split('/').includes('..')) {
+    throw new Error(`Path must be relative to the repository root: ${input}`);
+  }
+  return normalized;
+}
+
+function isWithin(filePath: string, scope: string): boolean {
+  return !scope || filePath === scope || filePath.startsWith(`${scope}/`);
+}
+
+function stringArg(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+function numberArg(args: Record<string, unknown>, name: string): number | undefined {
+  const value = args[name];
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isFinite(parsed) ? Math.floor(parsed) : undefined;
+}
@@ -0,0 +1,76 @@
+/**
+ * Agent Transcript
+ *
+ * Records prompts, responses and tool calls from an agentic coding run
+ * to a markdown file under RUNNER_TEMP, so a failed run can be debugged
+ * from the uploaded artifact. Entries are appended as they happen and
+ * survive a crash mid-run.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as core from '@actions/core';
+
+/** Longest single entry written to the transcript */
+const MAX_ENTRY_CHARS = 20000;
+
+/**
+ * Append-only transcript of an agent session
+ */
+export class AgentTranscript {
+  readonly filePath: string;
+
+  constructor(name: string) {
+    const dir = process.env.RUNNER_TEMP || os.tmpdir();
+    this.filePath = path.join(dir, `gh-agency-transcript-${name.replace(/[^\w.-]/g, '-')}.md`);
+    this.write(`# Agent Transcript: ${name}\n\nStarted ${new Date().toISOString()}\n`, true);
+  }
+
+  /**
+   * Records a prompt sent to the model
+   */
+  prompt(turn: number, content: string): void {
+    this.write(`\n## Turn ${turn}: prompt\n\n${fence(content)}`);
+  }
+
+  /**
+   * Records the model's final response for a turn
+   */
+  response(turn: number, content: string): void {
+    this.write(`\n## Turn ${turn}: response\n\n${fence(content)}`);
+  }
+
+  /**
+   * Records a tool call and its result
+   */
+  toolCall(name: string, args: Record<string, unknown>, result: string, durationMs: number): void {
+    this.write(`\n### Tool: ${name} (${durationMs}ms)\n\nArguments: \`${JSON.stringify(args)}\`\n\n${fence(result)}`);
+  }
+
+  /**
+   * Records a free-form note (budget exhaustion, errors)
+   */
+  note(message: string): void {
+    this.write(`\n> ${message}\n`);
+  }
+
+  private write(text: string, truncate = false): void {
+    try {
+      if (truncate) {
+        fs.writeFileSync(this.filePath, text, 'utf-8');
+      } else {
+        fs.appendFileSync(this.filePath, text, 'utf-8');
+      }
+    } catch (error) {
+      core.debug(`Failed to write transcript: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+function fence(content: string): string {
+  const body = content.length > MAX_ENTRY_CHARS
+    ? `${content.substring(0, MAX_ENTRY_CHARS)}\n... (${content.length - MAX_ENTRY_CHARS} more chars)`
+    : content;
+  return '````\n' + body + '\n````\n';
+}
@@ -0,0 +1,286 @@
+/**
+ * Verification Gate
+ *
+ * Writes generated changes into a scratch worktree and runs the
+ * repository's own build/typecheck/test commands against them, so
+ * compiler and test failures can be fed back to the model before
+ * anything is pushed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync, spawnSync } from 'child_process';
+import * as core from '@actions/core';
+import { createScratchWorktree, getWorkspaceRoot, removeScratchWorktree, withoutGitCredentials } from './workspace.js';
+import { isBinaryContent, isGeneratedPath, writeFileChanges, type FileChange } from './file-changes.js';
+
+/** A file change to verify */
+export type VerifiableFile = FileChange;
+
+/** Outcome of one verification command */
+export interface VerificationCommandResult {
+  command: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Combined stdout/stderr, trimmed to the last MAX_OUTPUT_CHARS */
+  output: string;
+}
+
+/** Outcome of a verification run */
+export interface VerificationResult {
+  passed: boolean;
+  results: VerificationCommandResult[];
+  /** Set when the worktree could not be prepared */
+  error?: string;
+}
+
+/** Outcome of rebuilding the generated artifacts */
+export interface RegenerationResult {
+  /** The build command's run */
+  result: VerificationCommandResult | null;
+  /** Generated files the build changed (empty when it failed) */
+  files: FileChange[];
+  /** Set when the worktree could not be prepared or read */
+  error?: string;
+}
+
+/** Verification settings */
+export interface VerificationOptions {
+  /** Shell commands run in order; the first failure stops the run */
+  commands: string[];
+  /** Ref the worktree is based on (the PR branch for feedback tasks) */
+  baseRef?: string;
+  /** Per-command timeout */
+  timeoutMs: number;
+}
+
+/** Output kept per command, from the end where errors usually are */
+const MAX_OUTPUT_CHARS = 8000;
+
+/** Output included in an issue fed back to the model */
+const MAX_ISSUE_CHARS = 3000;
+
+/** Environment variables never passed to commands running generated code */
+const SECRET_ENV_PATTERN = /TOKEN|SECRET|PASSWORD|PRIVATE|CREDENTIAL|^INPUT_|^ACTIONS_ID_TOKEN/i;
+
+/**
+ * Parses the multi-line `verify-commands` input
+ */
+export function parseVerifyCommands(input: string): string[] {
+  return input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+}
+
+/**
+ * Runs the verification commands against the changes in a scratch worktree
+ */
+export function runVerification(files: VerifiableFile[], options: VerificationOptions): VerificationResult {
+  let worktree: string;
+  try {
+    worktree = createScratchWorktree(options.baseRef);
+  } catch (error) {
+    const message = `Failed to create verification worktree: ${error instanceof Error ? error.message : String(error)}`;
+    core.warning(message);
+    return { passed: false, results: [], error: message };
+  }
+
+  try {
+    writeFileChanges(worktree, files);
+    linkDependencies(worktree);
+
+    const results: VerificationCommandResult[] = [];
+    for (const command of options.commands) {
+      core.info(`Verifying: ${command}`);
+      const result = runCommand(command, worktree, options.timeoutMs);
+      results.push(result);
+
+      if (result.exitCode !== 0) {
+        core.warning(`Verification failed: ${command} (${result.timedOut ? 'timed out' : `exit ${result.exitCode}`})`);
+        return { passed: false, results };
+      }
+      core.info(`  passed in ${Math.round(result.durationMs / 1000)}s`);
+    }
+
+    return { passed: true, results };
+  } catch (error) {
+    const message = `Verification error: ${error instanceof Error ? error.message : String(error)}`;
+    core.warning(message);
+    return { passed: false, results: [], error: message };
+  } finally {
+    removeScratchWorktree(worktree);
+  }
+}
+
+/**
+ * Turns a failed verification into issues for the generation loop
+ */
+export function formatVerificationIssues(result: VerificationResult): string[] {
+  if (result.passed) return [];
+  if (result.error) return [result.error];
+
+  return result.results
+    .filter((r) => r.exitCode !== 0)
+    .map((r) => {
+      const status = r.timedOut ? 'timed out' : `failed with exit code ${r.exitCode}`;
+      const output = r.output.length > MAX_ISSUE_CHARS ? r.output.slice(-MAX_ISSUE_CHARS) : r.output;
+      return `Verification command \`${r.command}\` ${status}. Fix the errors below:\n\`\`\`\n${output}\n\`\`\``;
+    });
+}
+
+/**
+ * Formats the verification log for the PR body
+ */
+export function formatVerificationLog(result: VerificationResult): string {
+  let log = `## Verification\n\n`;
+  log += result.passed
+    ? '✅ All verification commands passed.\n\n'
+    : '❌ Verification did not pass. Review the output before merging.\n\n';
+
+  if (result.error) {
+    log += `${result.error}\n\n`;
+  }
+
+  for (const r of result.results) {
+    const icon = r.exitCode === 0 ? '✅' : '❌';
+    const status = r.timedOut ? 'timed out' : `exit ${r.exitCode}`;
+    log += `<details>\n<summary>${icon} <code>${r.command}</code> (${status}, ${Math.round(r.durationMs / 1000)}s)</summary>\n\n`;
+    log += '```\n' + (r.output.trim() || '(no output)') + '\n```\n\n</details>\n\n';
+  }
+
+  return log;
+}
+
+/**
+ * Rebuilds the generated artifacts (`dist/`, lockfiles, ...) from the
+ * changed sources by running the repository's build command in a scratch
+ * worktree, and collects the generated files it changed
+ *
+ * @param generatedPaths - Globs of the generated artifacts to collect
+ */
+export function regenerateArtifacts(
+  files: FileChange[],
+  options: { command: string; baseRef?: string; timeoutMs: number; generatedPaths: string[] }
+): RegenerationResult {
+  let worktree: string;
+  try {
+    worktree = createScratchWorktree(options.baseRef);
+  } catch (error) {
+    const message = `Failed to create build worktree: ${error instanceof Error ? error.message : String(error)}`;
+    core.warning(message);
+    return { result: null, files: [], error: message };
+  }
+
+  try {
+    writeFileChanges(worktree, files);
+    linkDependencies(worktree);
+
+    core.info(`Regenerating build artifacts: ${options.command}`);
+    const result = runCommand(options.command, worktree, options.timeoutMs);
+    if (result.exitCode !== 0) {
+      core.warning(`Build failed: ${options.command} (${result.timedOut ? 'timed out' : `exit ${result.exitCode}`})`);
+      return { result, files: [] };
+    }
+
+    const generated = listWorktreeChanges(worktree)
+      .filter((change) => isGeneratedPath(change.path, options.generatedPaths))
+      .map((change) => readGeneratedFile(worktree, change.path, change.operation));
+    core.info(`  ${generated.length} generated file(s) changed`);
+    return { result, files: generated };
+  } catch (error) {
+    const message = `Build error: ${error instanceof Error ? error.message : String(error)}`;
+    core.warning(message);
+    return { result: null, files: [], error: message };
+  } finally {
+    removeScratchWorktree(worktree);
+  }
+}
+
+/**
+ * Lists changed, added and deleted files in a worktree (ignored files excluded)
+ */
+function listWorktreeChanges(worktree: string): Array<{ path: string; operation: 'create' | 'modify' | 'delete' }> {
+  const output = execFileSync('git', ['status', '--porcelain=v1', '-z', '--no-renames', '--untracked-files=all'], {
+    cwd: worktree,
+    encoding: 'utf-8',
+    maxBuffer: 50 * 1024 * 1024,
+  });
+  // Entries are "XY path", NUL-separated; "??" marks untracked files
+  return output
+    .split('\0')
+    .filter((entry) => entry.length > 3)
+    .map((entry) => {
+      const status = entry.substring(0, 2);
+      const operation = status === '??' ? 'create' : status.includes('D') ? 'delete' : 'modify';
+      return { path: entry.substring(3), operation };
+    });
+}
+
+/**
+ * Reads a generated file as a change, keeping binary content and the executable bit
+ */
+function readGeneratedFile(worktree: string, filePath: string, operation: 'create' | 'modify' | 'delete'): FileChange {
+  if (operation === 'delete') return { path: filePath, content: '', operation };
+
+  const fullPath = path.join(worktree, filePath);
+  const data = fs.readFileSync(fullPath);
+  const binary = isBinaryContent(data);
+  return {
+    path: filePath,
+    content: data.toString(binary ? 'base64' : 'utf-8'),
+    operation,
+    encoding: binary ? 'base64' : 'utf-8',
+    mode: (fs.statSync(fullPath).mode & 0o111) !== 0 ? '100755' : '100644',
+  };
+}
+
+/**
+ * Reuses installed dependencies from the main checkout so commands
+ * don't need a fresh install
+ */
+function linkDependencies(worktree: string): void {
+  const source = path.join(getWorkspaceRoot(), 'node_modules');
+  const target = path.join(worktree, 'node_modules');
+  if (fs.existsSync(source) && !fs.existsSync(target)) {
+    fs.symlinkSync(source, target, 'dir');
+  }
+}
+
+function runCommand(command: string, cwd: string, timeoutMs: number): VerificationCommandResult {
+  const started = Date.now();
+  const result = withoutGitCredentials(() => spawnSync(command, {
+    cwd,
+    shell: true,
+    encoding: 'utf-8',
+    timeout: timeoutMs,
+    maxBuffer: 50 * 1024 * 1024,
+    env: buildCommandEnv(),
+  }));
+
+  const output = `${result.stdout || ''}${result.stderr || ''}`;
+  const timedOut = (result.error as NodeJS.ErrnoException | undefined)?.code === 'ETIMEDOUT';
+
+  return {
+    command,
+    exitCode: timedOut ? null : result.status,
+    timedOut,
+    durationMs: Date.now() - started,
+    output: output.length > MAX_OUTPUT_CHARS ? output.slice(-MAX_OUTPUT_CHARS) : output,
+  };
+}
+
+/**
+ * Environment for verification commands: generated code runs here, so
+ * tokens and action inputs are stripped (git credentials are removed
+ * from the shared config by withoutGitCredentials)
+ */
+function buildCommandEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (!SECRET_ENV_PATTERN.test(key)) env[key] = value;
+  }
+  env.CI = 'true';
+  return env;
+}
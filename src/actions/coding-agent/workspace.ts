@@ -0,0 +1,291 @@
+/**
+ * Workspace Access
+ *
+ * Reads files from the actions/checkout working copy. When a ref is
+ * given (e.g. the head branch of an agent PR), contents are read from
+ * that ref via git so the agent sees the branch it is about to update
+ * rather than the default branch that was checked out.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+/** Largest file the agent will read into memory (1MB) */
+const MAX_READ_SIZE = 1024 * 1024;
+
+/** Largest git command output we buffer (10MB) */
+const MAX_GIT_OUTPUT = 10 * 1024 * 1024;
+
+/**
+ * Gets the root of the checked-out repository
+ */
+export function getWorkspaceRoot(): string {
+  return process.env.GITHUB_WORKSPACE || process.cwd();
+}
+
+/**
+ * Runs a git command in the workspace without a shell
+ */
+function git(args: string[], maxBuffer = MAX_GIT_OUTPUT): string {
+  return execFileSync('git', args, {
+    cwd: getWorkspaceRoot(),
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer,
+  });
+}
+
+/**
+ * Resolves a branch name to a ref git can read, preferring the
+ * remote-tracking branch fetched by actions/checkout
+ *
+ * @returns The resolvable ref, or null if neither form exists
+ */
+export function resolveGitRef(ref: string): string | null {
+  for (const candidate of [`origin/${ref}`, ref]) {
+    try {
+      git(['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`]);
+      return candidate;
+    } catch {
+      // Try the next candidate ref
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads a repository file, optionally at a specific ref
+ *
+ * @param filePath - Repository-relative path
+ * @param ref - Branch or commit to read from (defaults to the working tree)
+ * @returns File contents, or null if the file does not exist or is too large
+ */
+export function readWorkspaceFile(filePath: string, ref?: string): string | null {
+  const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+
+  if (ref) {
+    const resolved = resolveGitRef(ref);
+    if (!resolved) return null;
+    try {
+      return git(['show', `${resolved}:${normalized}`], MAX_READ_SIZE);
+    } catch {
+      return null;
+    }
+  }
+
+  const fullPath = path.join(getWorkspaceRoot(), normalized);
+  try {
+    const stat = fs.statSync(fullPath);
+    if (!stat.isFile() || stat.size > MAX_READ_SIZE) return null;
+    return fs.readFileSync(fullPath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Looks up a tracked file's git mode and blob, optionally at a specific ref,
+ * without reading its content (works for binary and very large files)
+ *
+ * @returns The entry, or null if the path is not a tracked file or symlink
+ */
+export function getWorkspaceFileEntry(
+  filePath: string,
+  ref?: string
+): { mode: '100644' | '100755' | '120000'; sha: string } | null {
+  const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  try {
+    const resolved = ref ? resolveGitRef(ref) : null;
+    if (ref && !resolved) return null;
+    // "<mode> <type> <sha>\t<path>" from ls-tree, "<mode> <sha> <stage>\t<path>" from ls-files
+    const output = resolved
+      ? git(['ls-tree', resolved, '--', normalized])
+      : git(['ls-files', '--stage', '--', normalized]);
+    const fields = output.split('\t')[0]?.trim().split(/\s+/) ?? [];
+    const mode = fields[0];
+    const sha = resolved ? fields[2] : fields[1];
+    if ((mode === '100644' || mode === '100755' || mode === '120000') && sha) {
+      return { mode, sha };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists all tracked files, optionally at a specific ref
+ *
+ * @returns Repository-relative paths, or an empty list if git is unavailable
+ */
+export function listRepositoryFiles(ref?: string): string[] {
+  try {
+    const resolved = ref ? resolveGitRef(ref) : null;
+    const output = resolved
+      ? git(['ls-tree', '-r', '--name-only', resolved])
+      : git(['ls-files']);
+    return output.split('\n').map((l) => l.trim()).filter((l) => l.length > 0);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists files whose contents match an extended regular expression
+ *
+ * @param pattern - POSIX extended regex passed to `git grep -E`
+ * @param ref - Branch or commit to search (defaults to the working tree)
+ * @returns Matching repository-relative paths
+ */
+export function grepRepositoryFiles(pattern: string, ref?: string): string[] {
+  const resolved = ref ? resolveGitRef(ref) : null;
+  const args = ['grep', '-l', '-I', '-E', '-e', pattern];
+  if (resolved) args.push(resolved);
+  args.push('--');
+
+  try {
+    return git(args)
+      .split('\n')
+      .map((l) => l.trim())
+      .filter((l) => l.length > 0)
+      // With a ref, git grep prefixes each path with "<ref>:"
+      .map((l) => (resolved && l.startsWith(`${resolved}:`) ? l.substring(resolved.length + 1) : l));
+  } catch {
+    // git grep exits 1 when nothing matches
+    return [];
+  }
+}
+
+/**
+ * Lists matching lines as `path:line:text`
+ *
+ * @param pattern - POSIX extended regex passed to `git grep -E`
+ * @param ref - Branch or commit to search (defaults to the working tree)
+ * @param pathspec - Optional directory or file to limit the search to
+ */
+export function grepRepositoryLines(pattern: string, ref?: string, pathspec?: string): string[] {
+  const resolved = ref ? resolveGitRef(ref) : null;
+  const args = ['grep', '-n', '-I', '-E', '-e', pattern];
+  if (resolved) args.push(resolved);
+  args.push('--');
+  if (pathspec) args.push(pathspec);
+
+  try {
+    return git(args)
+      .split('\n')
+      .filter((l) => l.length > 0)
+      .map((l) => (resolved && l.startsWith(`${resolved}:`) ? l.substring(resolved.length + 1) : l));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Gets one-line commit history, optionally for a single path
+ *
+ * @param pathspec - File or directory to show history for
+ * @param maxCount - Maximum commits to return
+ * @param ref - Branch or commit to start from (defaults to HEAD)
+ */
+export function getGitLog(pathspec?: string, maxCount = 20, ref?: string): string {
+  const resolved = (ref && resolveGitRef(ref)) || 'HEAD';
+  const args = ['log', `--max-count=${maxCount}`, '--format=%h %ad %an: %s', '--date=short', resolved, '--'];
+  if (pathspec) args.push(pathspec);
+
+  try {
+    return git(args).trim();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Creates a detached scratch worktree so changes can be built and tested
+ * without touching the main checkout
+ *
+ * @param ref - Branch or commit to check out (defaults to HEAD)
+ * @returns Absolute path of the new worktree
+ */
+export function createScratchWorktree(ref?: string): string {
+  const resolved = (ref && resolveGitRef(ref)) || 'HEAD';
+  const parent = process.env.RUNNER_TEMP || os.tmpdir();
+  const dir = fs.mkdtempSync(path.join(parent, 'gh-agency-worktree-'));
+  git(['worktree', 'add', '--detach', dir, resolved]);
+  return dir;
+}
+
+/**
+ * Runs a function with git credentials removed from the checkout's config
+ *
+ * Scratch worktrees share the checkout's `.git/config`, where
+ * actions/checkout persists the token as an `extraheader` and a push
+ * leaves it in the remote URL. Generated code run in a worktree could
+ * read it from there, so both are removed while `fn` runs and restored
+ * afterwards.
+ */
+export function withoutGitCredentials<T>(fn: () => T): T {
+  const headers = readConfigEntries('^http\\..*\\.extraheader$');
+  const urls = readConfigEntries('^remote\\..*\\.url$').filter(([, url]) => stripUrlCredentials(url) !== url);
+
+  writeConfigEntries([...headers, ...urls], urls.map(([key, url]): [string, string] => [key, stripUrlCredentials(url)]));
+  try {
+    return fn();
+  } finally {
+    writeConfigEntries(urls, [...headers, ...urls]);
+  }
+}
+
+/**
+ * Reads the local config entries whose key matches a regex
+ */
+function readConfigEntries(pattern: string): Array<[string, string]> {
+  let output: string;
+  try {
+    output = git(['config', '--local', '--get-regexp', pattern]);
+  } catch {
+    // Exit code 1: no matching entries
+    return [];
+  }
+  return output.split('\n').filter(Boolean).map((line): [string, string] => {
+    const space = line.indexOf(' ');
+    return space === -1 ? [line, ''] : [line.substring(0, space), line.substring(space + 1)];
+  });
+}
+
+/**
+ * Replaces the local config values of the keys in `remove` with `add`
+ */
+function writeConfigEntries(remove: Array<[string, string]>, add: Array<[string, string]>): void {
+  for (const key of new Set(remove.map(([k]) => k))) {
+    git(['config', '--local', '--unset-all', key]);
+  }
+  for (const [key, value] of add) {
+    git(['config', '--local', '--add', key, value]);
+  }
+}
+
+/**
+ * Removes the `user:token@` part of a URL
+ */
+function stripUrlCredentials(url: string): string {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^/@]*@/i, '$1');
+}
+
+/**
+ * Removes a scratch worktree created by createScratchWorktree
+ */
+export function removeScratchWorktree(dir: string): void {
+  try {
+    git(['worktree', 'remove', '--force', dir]);
+  } catch {
+    // Fall back to deleting the directory and pruning the stale entry
+    fs.rmSync(dir, { recursive: true, force: true });
+    try {
+      git(['worktree', 'prune']);
+    } catch {
+      // Nothing left to clean up
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { anchorComment, anchorComments, formatUnanchoredComments } from '../anchoring.js';
+import { parseUnifiedDiff, getCommentableLines } from '../diff.js';
+
+const commentable = getCommentableLines(parseUnifiedDiff([
+  'diff --git a/src/app.ts b/src/app.ts',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -10,3 +10,4 @@',
+  ' const a = 1;',
+  '-const b = 2;',
+  '+const b = 3;',
+  '+const c = 4;',
+  ' const d = 5;',
+  '@@ -30,2 +31,2 @@',
+  ' const x = 1;',
+  '-const y = 2;',
+  '+const y = 3;',
+  'diff --git a/src/gone.ts b/src/gone.ts',
+  'deleted file mode 100644',
+  '--- a/src/gone.ts',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-export {};',
+].join('\n')));
+
+describe('anchorComment', () => {
+  it('should keep comments on lines of the diff as they are', () => {
+    const comment = { path: 'src/app.ts', start_line: 11, line: 12, body: 'Looks off' };
+    expect(anchorComment(comment, commentable)).toEqual(comment);
+  });
+
+  it('should move a line just outside a hunk to the nearest line and say so', () => {
+    expect(anchorComment({ path: 'src/app.ts', line: 15, body: 'Leak' }, commentable)).toEqual({
+      path: 'src/app.ts',
+      line: 13,
+      body: '*(Refers to line 15, which is not entirely part of the diff.)*\n\nLeak',
+    });
+    expect(anchorComment({ path: 'src/app.ts', line: 20, body: 'Far away' }, commentable)).toBeNull();
+  });
+
+  it('should trim a range to the hunk of its last line', () => {
+    const placed = anchorComment({ path: 'src/app.ts', start_line: 12, line: 32, body: 'Spans hunks' }, commentable);
+    expect(placed).toMatchObject({ start_line: 31, line: 32 });
+    const collapsed = anchorComment({ path: 'src/app.ts', start_line: 5, line: 10, body: 'Starts early' }, commentable);
+    expect(collapsed).toMatchObject({ line: 10 });
+    expect(collapsed).not.toHaveProperty('start_line');
+  });
+
+  it('should not place comments on files without new lines in the diff', () => {
+    expect(anchorComment({ path: 'src/gone.ts', line: 1, body: 'x' }, commentable)).toBeNull();
+    expect(anchorComment({ path: 'src/untouched.ts', line: 1, body: 'x' }, commentable)).toBeNull();
+  });
+});
+
+describe('anchorComments', () => {
+  it('should return the comments that cannot be placed for the review body', () => {
+    const { anchored, unanchored } = anchorComments(
+      [
+        { path: 'src/app.ts', line: 11, body: 'On the diff' },
+        { path: 'src/other.ts', start_line: 3, line: 4, body: 'Not in this PR' },
+      ],
+      commentable
+    );
+    expect(anchored.map((c) => c.body)).toEqual(['On the diff']);
+    expect(formatUnanchoredComments(unanchored)).toBe(
+      '\n### 📍 Outside the Diff\n\n**`src/other.ts`** (lines 3-4):\nNot in this PR\n'
+    );
+    expect(formatUnanchoredComments([])).toBe('');
+  });
+});
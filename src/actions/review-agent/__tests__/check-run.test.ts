@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as core from '@actions/core';
+import {
+  mapEventToConclusion,
+  buildAnnotations,
+  buildCheckOutput,
+  publishCheckRun,
+  CHECK_RUN_NAME,
+} from '../check-run.js';
+import type { ReviewResult } from '../../../shared/index.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const result: ReviewResult = {
+  overallAssessment: 'request-changes',
+  securityIssues: [
+    { severity: 'critical', file: 'src/db.ts', line: 3, description: 'SQL injection', suggestion: 'Use parameters' },
+    { severity: 'medium', file: 'src/auth.ts', description: 'Weak session timeout' },
+  ],
+  codeQualityIssues: [
+    { severity: 'low', file: 'src/util.ts', line: 8, description: 'Unused import', fix: { startLine: 8, endLine: 9, replacement: '' } },
+  ],
+  suggestions: [],
+  summary: 'One blocking issue.',
+};
+
+const repo = { owner: 'o', repo: 'r' };
+const HEAD = 'a'.repeat(40);
+
+describe('mapEventToConclusion', () => {
+  it('should fail the check when changes are requested', () => {
+    expect(mapEventToConclusion('APPROVE')).toBe('success');
+    expect(mapEventToConclusion('REQUEST_CHANGES')).toBe('failure');
+    expect(mapEventToConclusion('COMMENT')).toBe('neutral');
+  });
+});
+
+describe('buildAnnotations', () => {
+  it('should annotate findings with a line at a level matching their severity', () => {
+    expect(buildAnnotations(result)).toEqual([
+      {
+        path: 'src/db.ts',
+        start_line: 3,
+        end_line: 3,
+        annotation_level: 'failure',
+        title: 'Security (critical)',
+        message: 'SQL injection\n\nSuggestion: Use parameters',
+      },
+      {
+        path: 'src/util.ts',
+        start_line: 8,
+        end_line: 9,
+        annotation_level: 'notice',
+        title: 'Code quality (low)',
+        message: 'Unused import',
+      },
+    ]);
+  });
+});
+
+describe('buildCheckOutput', () => {
+  it('should summarize the outcome, counts, findings and skipped files', () => {
+    const { title, summary } = buildCheckOutput(result, 'REQUEST_CHANGES', [{ file: 'logo.png', reason: 'binary file' }]);
+    expect(title).toBe('2 security issue(s), 1 code quality issue(s)');
+    expect(summary).toContain('🚫 **Changes requested**');
+    expect(summary).toContain('| Security | 1 | 0 | 1 | 0 |');
+    expect(summary).toContain('- 🔒 **medium** `src/auth.ts`: Weak session timeout');
+    expect(summary).toContain('- `logo.png`: binary file');
+  });
+});
+
+describe('publishCheckRun', () => {
+  it('should create a completed check run on the head commit and add further annotations in batches', async () => {
+    const many: ReviewResult = {
+      ...result,
+      codeQualityIssues: Array.from({ length: 120 }, (_, i) => ({ severity: 'low' as const, file: 'src/a.ts', line: i + 1, description: `Issue ${i}` })),
+    };
+    const create = vi.fn(async () => ({ data: { id: 77 } }));
+    const update = vi.fn(async () => ({}));
+    const octokit = { rest: { checks: { create, update } } } as any;
+
+    await publishCheckRun(octokit, repo, HEAD, many, 'REQUEST_CHANGES');
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      name: CHECK_RUN_NAME,
+      head_sha: HEAD,
+      status: 'completed',
+      conclusion: 'failure',
+    }));
+    expect((create.mock.calls[0] as any[])[0].output.annotations).toHaveLength(50);
+    expect(update.mock.calls.map((call: any[]) => [call[0].check_run_id, call[0].output.annotations.length])).toEqual([[77, 50], [77, 21]]);
+  });
+
+  it('should only warn when the token cannot create check runs', async () => {
+    const octokit = {
+      rest: { checks: { create: async () => { throw new Error('Resource not accessible by integration'); } } },
+    } as any;
+
+    await expect(publishCheckRun(octokit, repo, HEAD, result, 'APPROVE')).resolves.toBeUndefined();
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Resource not accessible by integration'));
+  });
+});
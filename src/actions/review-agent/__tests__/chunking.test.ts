@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  planReviewChunks,
+  mergeChunkResults,
+  mapWithConcurrency,
+  diffFromPatches,
+  estimateTokens,
+  keepChunkFindings,
+} from '../chunking.js';
+import { parseUnifiedDiff } from '../diff.js';
+
+/** A file diff with one hunk of `count` added lines per start line */
+function fileDiff(path: string, starts: number[], count = 10): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    ...starts.flatMap((start) => [
+      `@@ -${start},0 +${start + 1},${count} @@`,
+      ...Array.from({ length: count }, (_, i) => `+const line${start + i} = ${'x'.repeat(30)};`),
+    ]),
+  ].join('\n');
+}
+
+describe('planReviewChunks', () => {
+  it('should review a small diff in one chunk and report files it cannot review', () => {
+    const diff = [
+      fileDiff('src/a.ts', [1]),
+      'diff --git a/logo.png b/logo.png',
+      'Binary files a/logo.png and b/logo.png differ',
+      fileDiff('package-lock.json', [1]),
+      'diff --git a/old.ts b/new.ts',
+      'similarity index 100%',
+      'rename from old.ts',
+      'rename to new.ts',
+    ].join('\n');
+
+    const plan = planReviewChunks(parseUnifiedDiff(diff));
+    expect(plan.chunks).toHaveLength(1);
+    expect(plan.chunks[0]!.files).toEqual(['src/a.ts']);
+    expect(plan.skipped).toEqual([
+      { file: 'logo.png', reason: 'binary file' },
+      { file: 'package-lock.json', reason: 'lock file or generated output' },
+      { file: 'new.ts', reason: 'no content changes (rename or mode change only)' },
+    ]);
+  });
+
+  it('should split a large file at hunk boundaries within the budget', () => {
+    const files = parseUnifiedDiff([fileDiff('src/big.ts', [1, 100, 200, 300]), fileDiff('src/small.ts', [1], 2)].join('\n'));
+    const plan = planReviewChunks(files, 300);
+
+    expect(plan.skipped).toEqual([]);
+    expect(plan.chunks.length).toBeGreaterThan(1);
+    for (const chunk of plan.chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(300);
+      expect(chunk.diff.startsWith('diff --git a/src/big.ts') || chunk.diff.startsWith('diff --git a/src/small.ts')).toBe(true);
+    }
+    const hunks = plan.chunks.flatMap((c) => parseUnifiedDiff(c.diff)).flatMap((f) => f.hunks);
+    expect(hunks.map((h) => h.newStart)).toEqual([2, 101, 201, 301, 2]);
+  });
+
+  it('should cut a hunk too large on its own into hunks with correct line numbers', () => {
+    const plan = planReviewChunks(parseUnifiedDiff(fileDiff('src/new.ts', [0], 60)), 300);
+    const parts = plan.chunks.flatMap((c) => parseUnifiedDiff(c.diff)).flatMap((f) => f.hunks);
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.flatMap((h) => h.lines.map((l) => l.newLine))).toEqual(Array.from({ length: 60 }, (_, i) => i + 1));
+    expect(parts[1]!.oldStart).toBe(0);
+    for (const chunk of plan.chunks) expect(estimateTokens(chunk.diff)).toBeLessThanOrEqual(300);
+  });
+
+  it('should report the files left over at the chunk limit', () => {
+    const diff = [fileDiff('src/a.ts', [1]), fileDiff('src/b.ts', [1, 100]), fileDiff('src/c.ts', [1])].join('\n');
+    const plan = planReviewChunks(parseUnifiedDiff(diff), 150, 2);
+
+    expect(plan.chunks).toHaveLength(2);
+    expect(plan.skipped).toEqual([
+      { file: 'src/b.ts', reason: 'partly reviewed: 1 of 2 hunks before the review limit of 2 chunks' },
+      { file: 'src/c.ts', reason: 'review limit of 2 chunks reached' },
+    ]);
+  });
+});
+
+describe('mergeChunkResults', () => {
+  it('should drop duplicate findings, rank by severity and keep the strictest assessment', () => {
+    const merged = mergeChunkResults([
+      {
+        overallAssessment: 'approve',
+        securityIssues: [{ severity: 'medium', file: 'src/a.ts', line: 4, description: 'Unvalidated input' }],
+        codeQualityIssues: [{ severity: 'low', file: 'src/a.ts', description: 'Long function' }],
+        suggestions: ['Add tests'],
+        summary: 'Part one',
+      },
+      {
+        overallAssessment: 'request-changes',
+        securityIssues: [
+          { severity: 'high', file: 'src/a.ts', line: 4, description: 'Unvalidated  input' },
+          { severity: 'critical', file: 'src/b.ts', line: 1, description: 'Hardcoded token' },
+        ],
+        codeQualityIssues: [],
+        suggestions: ['Add tests'],
+        summary: 'Part two',
+      },
+    ]);
+
+    expect(merged.overallAssessment).toBe('request-changes');
+    expect(merged.securityIssues.map((i) => [i.file, i.severity])).toEqual([
+      ['src/b.ts', 'critical'],
+      ['src/a.ts', 'high'],
+    ]);
+    expect(merged.codeQualityIssues).toHaveLength(1);
+    expect(merged.suggestions).toEqual(['Add tests']);
+    expect(merged.summary).toBe('Part one\n\nPart two');
+  });
+});
+
+describe('keepChunkFindings', () => {
+  it('should drop synthesized findings that no chunk reported at that location', () => {
+    const merged = {
+      overallAssessment: 'comment' as const,
+      securityIssues: [{ severity: 'medium' as const, file: 'src/a.ts', line: 4, description: 'Unvalidated input' }],
+      codeQualityIssues: [],
+      suggestions: [],
+      summary: 'Merged',
+    };
+    const kept = keepChunkFindings({
+      ...merged,
+      securityIssues: [
+        { severity: 'high', file: 'src/a.ts', line: 4, description: 'Unvalidated input reaches the query' },
+        { severity: 'critical', file: 'src/a.ts', line: 20, description: 'Invented issue' },
+      ],
+      codeQualityIssues: [{ severity: 'low', file: 'src/a.ts', line: 4, description: 'Moved category' }],
+      summary: 'Synthesized',
+    }, merged);
+
+    expect(kept.securityIssues).toEqual([
+      { severity: 'high', file: 'src/a.ts', line: 4, description: 'Unvalidated input reaches the query' },
+    ]);
+    expect(kept.codeQualityIssues).toEqual([]);
+    expect(kept.summary).toBe('Synthesized');
+  });
+});
+
+describe('diffFromPatches', () => {
+  it('should rebuild a parseable diff and report files without a patch', () => {
+    const { diff, skipped } = diffFromPatches([
+      { filename: 'src/a.ts', status: 'added', additions: 1, deletions: 0, patch: '@@ -0,0 +1 @@\n+export {};' },
+      { filename: 'src/huge.ts', status: 'modified', additions: 9000, deletions: 10 },
+    ]);
+
+    const [file] = parseUnifiedDiff(diff);
+    expect(file).toMatchObject({ oldPath: null, newPath: 'src/a.ts' });
+    expect(file!.hunks[0]!.lines).toEqual([{ type: 'added', newLine: 1, content: 'export {};' }]);
+    expect(skipped).toEqual([{ file: 'src/huge.ts', reason: 'diff too large for the GitHub API' }]);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should run at most the limit at once and keep the order of the items', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+});
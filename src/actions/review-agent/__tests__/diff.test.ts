@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnifiedDiff, mapLineThroughDiff, getCommentableLines } from '../diff.js';
+
+const diff = [
+  'diff --git a/src/client.ts b/src/client.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/client.ts',
+  '+++ b/src/client.ts',
+  '@@ -2,4 +2,5 @@ import x',
+  ' const a = 1;',
+  '-const b = 2;',
+  '+const b = 3;',
+  '+const c = 4;',
+  ' const d = 5;',
+  ' const e = 6;',
+  '@@ -20,0 +22,1 @@',
+  '+// appended',
+  'diff --git a/old.ts b/new.ts',
+  'similarity index 100%',
+  'rename from old.ts',
+  'rename to new.ts',
+  'diff --git a/gone.ts b/gone.ts',
+  'deleted file mode 100644',
+  '--- a/gone.ts',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-export {};',
+  'diff --git a/logo.png b/logo.png',
+  'Binary files a/logo.png and b/logo.png differ',
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+  it('should parse files, hunks and line numbers', () => {
+    const files = parseUnifiedDiff(diff);
+    expect(files.map((f) => [f.oldPath, f.newPath])).toEqual([
+      ['src/client.ts', 'src/client.ts'],
+      ['old.ts', 'new.ts'],
+      ['gone.ts', null],
+      ['logo.png', 'logo.png'],
+    ]);
+
+    const [client] = files;
+    expect(client!.hunks).toHaveLength(2);
+    expect(client!.hunks[0]!.lines).toEqual([
+      { type: 'context', oldLine: 2, newLine: 2, content: 'const a = 1;' },
+      { type: 'removed', oldLine: 3, content: 'const b = 2;' },
+      { type: 'added', newLine: 3, content: 'const b = 3;' },
+      { type: 'added', newLine: 4, content: 'const c = 4;' },
+      { type: 'context', oldLine: 4, newLine: 5, content: 'const d = 5;' },
+      { type: 'context', oldLine: 5, newLine: 6, content: 'const e = 6;' },
+    ]);
+    expect(client!.patch.split('\n')[0]).toBe('diff --git a/src/client.ts b/src/client.ts');
+    expect(files[3]!.binary).toBe(true);
+  });
+});
+
+describe('mapLineThroughDiff', () => {
+  const [client, renamed, deleted] = parseUnifiedDiff(diff);
+
+  it('should follow unchanged lines to their new numbers', () => {
+    expect(mapLineThroughDiff(client!, 1)).toBe(1);
+    expect(mapLineThroughDiff(client!, 4)).toBe(5);
+    expect(mapLineThroughDiff(client!, 10)).toBe(11);
+    // Line 20 comes before the insertion after it
+    expect(mapLineThroughDiff(client!, 20)).toBe(21);
+    expect(mapLineThroughDiff(client!, 21)).toBe(23);
+    expect(mapLineThroughDiff(renamed!, 7)).toBe(7);
+  });
+
+  it('should report changed and deleted lines as gone', () => {
+    expect(mapLineThroughDiff(client!, 3)).toBeNull();
+    expect(mapLineThroughDiff(deleted!, 1)).toBeNull();
+  });
+});
+
+describe('getCommentableLines', () => {
+  it('should map the added and context lines of each file to their hunk', () => {
+    const commentable = getCommentableLines(parseUnifiedDiff(diff));
+    expect([...commentable.get('src/client.ts')!]).toEqual([[2, 0], [3, 0], [4, 0], [5, 0], [6, 0], [22, 1]]);
+    expect(commentable.get('new.ts')?.size).toBe(0);
+    expect(commentable.has('gone.ts')).toBe(false);
+  });
+});
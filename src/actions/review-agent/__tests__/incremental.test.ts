@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatAuditLog, createAuditEntry } from '../../../sdk/github-api.js';
+import {
+  trackFindings,
+  withCarriedFindings,
+  formatFindingsState,
+  findPreviousReview,
+  carryForwardFindings,
+  getIncrementalDiff,
+  type TrackedFinding,
+} from '../incremental.js';
+import { parseUnifiedDiff } from '../diff.js';
+
+vi.mock('@actions/core', () => ({
+  info: vi.fn(),
+  warning: vi.fn(),
+}));
+
+const HEAD = 'a'.repeat(40);
+
+const findings: TrackedFinding[] = [
+  { category: 'security', severity: 'high', file: 'src/db.ts', line: 3, description: 'SQL built by string concatenation' },
+  { category: 'quality', severity: 'low', file: 'src/db.ts', line: 10, description: 'Unused variable <tmp>' },
+  { category: 'quality', severity: 'medium', file: 'src/util.ts', description: 'Missing tests' },
+];
+
+function agentReview(body: string, headSha?: string) {
+  const entry = createAuditEntry('review-agent', 'input', [], [], 'claude-sonnet-4.5');
+  return {
+    user: 'gh-agency[bot]',
+    body: `${body}\n\n---\n*Review by GH-Agency Review Agent*${formatAuditLog(headSha ? { ...entry, headSha } : entry)}`,
+  };
+}
+
+describe('findPreviousReview', () => {
+  it('should read the reviewed head and open findings back from the last agent review', () => {
+    const state = formatFindingsState({
+      securityIssues: [{ severity: 'high', file: 'src/db.ts', line: 3, description: 'SQL built by string concatenation' }],
+      codeQualityIssues: [{ severity: 'low', file: 'src/db.ts', line: 10, description: 'Unused variable <tmp>' }],
+    });
+    expect(state).not.toContain('<tmp>');
+
+    const previous = findPreviousReview([
+      agentReview('older', 'b'.repeat(40)),
+      agentReview(`## ✨ AI Code Review${state}`, HEAD),
+      { user: 'octocat', body: 'LGTM' },
+    ]);
+    expect(previous?.headSha).toBe(HEAD);
+    expect(previous?.findings).toEqual([
+      expect.objectContaining({ category: 'security', file: 'src/db.ts', line: 3 }),
+      expect.objectContaining({ category: 'quality', description: expect.stringContaining('Unused variable') }),
+    ]);
+  });
+
+  it('should ignore look-alike reviews from humans and need a recorded head', () => {
+    expect(findPreviousReview([{ ...agentReview('fake', HEAD), user: 'mallory' }])).toBeNull();
+    expect(findPreviousReview([agentReview('old format')])).toBeNull();
+  });
+});
+
+describe('carryForwardFindings', () => {
+  const changes = parseUnifiedDiff([
+    'diff --git a/src/db.ts b/src/db.ts',
+    '--- a/src/db.ts',
+    '+++ b/src/db.ts',
+    '@@ -2,3 +2,4 @@',
+    ' import { pool } from "./pool";',
+    '-const query = "SELECT * FROM users WHERE id = " + id;',
+    '+const query = "SELECT * FROM users WHERE id = $1";',
+    '+const params = [id];',
+    ' export {};',
+  ].join('\n'));
+
+  it('should resolve findings on changed lines and move the rest', () => {
+    const { carried, resolved } = carryForwardFindings(findings, changes, ['src/db.ts', 'src/util.ts']);
+    expect(resolved.map((f) => f.line)).toEqual([3]);
+    expect(carried).toEqual([
+      expect.objectContaining({ file: 'src/db.ts', line: 11 }),
+      expect.objectContaining({ file: 'src/util.ts', description: 'Missing tests' }),
+    ]);
+  });
+
+  it('should resolve findings on files the PR no longer changes', () => {
+    const { resolved } = carryForwardFindings(findings, changes, ['src/db.ts']);
+    expect(resolved.map((f) => f.file)).toContain('src/util.ts');
+  });
+});
+
+describe('withCarriedFindings', () => {
+  it('should add open findings unless the new review reports the same line', () => {
+    const result = {
+      overallAssessment: 'comment' as const,
+      securityIssues: [{ severity: 'critical' as const, file: 'src/db.ts', line: 3, description: 'Still injectable' }],
+      codeQualityIssues: [],
+      suggestions: [],
+      summary: '',
+    };
+    const combined = withCarriedFindings(result, findings);
+    expect(combined.securityIssues.map((i) => i.description)).toEqual(['Still injectable']);
+    expect(combined.codeQualityIssues).toHaveLength(2);
+    expect(trackFindings(combined)).toHaveLength(3);
+  });
+});
+
+describe('getIncrementalDiff', () => {
+  const compareDiff = [
+    'diff --git a/src/db.ts b/src/db.ts',
+    '--- a/src/db.ts',
+    '+++ b/src/db.ts',
+    '@@ -1 +1 @@',
+    '-a',
+    '+b',
+    'diff --git a/upstream.ts b/upstream.ts',
+    '--- a/upstream.ts',
+    '+++ b/upstream.ts',
+    '@@ -1 +1 @@',
+    '-x',
+    '+y',
+  ].join('\n');
+  const ref = { owner: 'o', repo: 'r', pullNumber: 1 };
+
+  it('should keep only the PR files changed since the previous head', async () => {
+    const compareCommitsWithBasehead = vi.fn(async (params: any) =>
+      params.mediaType ? { data: compareDiff } : { data: { status: 'ahead' } }
+    );
+    const octokit = { rest: { repos: { compareCommitsWithBasehead } } } as any;
+
+    const changes = await getIncrementalDiff(octokit, ref, 'b'.repeat(40), HEAD, ['src/db.ts']);
+    expect(changes?.map((c) => c.newPath)).toEqual(['src/db.ts']);
+    expect(compareCommitsWithBasehead).toHaveBeenCalledWith(expect.objectContaining({ basehead: `${'b'.repeat(40)}...${HEAD}` }));
+  });
+
+  it('should fall back to a full review after a force-push', async () => {
+    const octokit = { rest: { repos: { compareCommitsWithBasehead: async () => ({ data: { status: 'diverged' } }) } } } as any;
+    expect(await getIncrementalDiff(octokit, ref, 'b'.repeat(40), HEAD, ['src/db.ts'])).toBeNull();
+  });
+});
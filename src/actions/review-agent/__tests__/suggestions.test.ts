@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildIssueComment, canAnchorFix } from '../suggestions.js';
+import { parseUnifiedDiff, getCommentableLines } from '../diff.js';
+
+const commentable = getCommentableLines(parseUnifiedDiff([
+  'diff --git a/src/db.ts b/src/db.ts',
+  '--- a/src/db.ts',
+  '+++ b/src/db.ts',
+  '@@ -10,3 +10,4 @@ export function find(id) {',
+  '   const sql = base;',
+  '-  return pool.query(sql + id);',
+  '+  const query = sql + id;',
+  '+  return pool.query(query);',
+  ' }',
+  '@@ -40,2 +41,2 @@',
+  ' const a = 1;',
+  '-const b = 2;',
+  '+const b = 3;',
+].join('\n')));
+
+const issue = {
+  severity: 'high' as const,
+  file: 'src/db.ts',
+  line: 12,
+  description: 'SQL built by concatenation',
+  suggestion: 'Use a parameterized query',
+};
+
+describe('canAnchorFix', () => {
+  it('should only accept ranges on the new side of one hunk', () => {
+    expect(canAnchorFix('src/db.ts', { startLine: 11, endLine: 12, replacement: '' }, commentable)).toBe(true);
+    expect(canAnchorFix('src/db.ts', { startLine: 13, endLine: 13, replacement: '' }, commentable)).toBe(true);
+    // Spans two hunks
+    expect(canAnchorFix('src/db.ts', { startLine: 12, endLine: 41, replacement: '' }, commentable)).toBe(false);
+    // Outside the diff
+    expect(canAnchorFix('src/db.ts', { startLine: 30, endLine: 30, replacement: '' }, commentable)).toBe(false);
+    expect(canAnchorFix('src/other.ts', { startLine: 11, endLine: 11, replacement: '' }, commentable)).toBe(false);
+  });
+});
+
+describe('buildIssueComment', () => {
+  it('should offer an anchorable fix as a suggested change over its range', () => {
+    const fix = { startLine: 11, endLine: 12, replacement: '  return pool.query(sql + "$1", [id]);' };
+    const comment = buildIssueComment({ ...issue, fix }, '🔒 **Security (high)**', commentable);
+
+    expect(comment).toEqual({
+      path: 'src/db.ts',
+      start_line: 11,
+      line: 12,
+      body: '🔒 **Security (high)**: SQL built by concatenation\n\n💡 Use a parameterized query\n\n'
+        + '```suggestion\n  return pool.query(sql + "$1", [id]);\n```',
+    });
+  });
+
+  it('should use a single-line comment for a one-line fix and allow deletions', () => {
+    const comment = buildIssueComment({ ...issue, fix: { startLine: 12, endLine: 12, replacement: '' } }, 'x', commentable);
+    expect(comment).not.toHaveProperty('start_line');
+    expect(comment?.body).toContain('```suggestion\n```');
+  });
+
+  it('should fall back to prose on the finding line when the range is not in the diff', () => {
+    const fix = { startLine: 30, endLine: 31, replacement: 'const safe = true;' };
+    const comment = buildIssueComment({ ...issue, fix }, 'x', commentable);
+
+    expect(comment).toMatchObject({ path: 'src/db.ts', line: 12 });
+    expect(comment?.body).not.toContain('```suggestion');
+    expect(comment?.body).toContain('Suggested replacement for lines 30-31:\n\n```\nconst safe = true;\n```');
+  });
+
+  it('should skip findings without a line or anchorable fix', () => {
+    expect(buildIssueComment({ ...issue, line: undefined }, 'x', commentable)).toBeNull();
+  });
+});
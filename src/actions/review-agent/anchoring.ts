@@ -0,0 +1,111 @@
+/**
+ * Inline Comment Anchoring
+ *
+ * GitHub rejects a whole review when one of its inline comments is on a
+ * line outside the PR's diff. Comments are checked against the lines of
+ * the diff before posting: a line just outside a hunk is moved to the
+ * nearest line in it, a range is trimmed to one hunk, and comments that
+ * cannot be placed are returned for the review body instead.
+ */
+
+import type { ReviewComment } from '../../sdk/index.js';
+import type { CommentableLines } from './diff.js';
+
+/** How far (in lines) a comment may be moved to reach the diff */
+export const MAX_SNAP_DISTANCE = 3;
+
+/** Inline comments split by whether they can be placed on the diff */
+export interface AnchoredComments {
+  anchored: ReviewComment[];
+  unanchored: ReviewComment[];
+}
+
+/**
+ * Checks whether a range of a file's new version lies in one hunk of the diff
+ */
+export function isRangeCommentable(
+  commentable: CommentableLines,
+  path: string,
+  startLine: number,
+  endLine: number
+): boolean {
+  const lines = commentable.get(path);
+  const hunk = lines?.get(endLine);
+  // The new-side lines of a hunk are consecutive, so both ends suffice
+  return hunk !== undefined && lines?.get(startLine) === hunk;
+}
+
+/**
+ * Places a comment on the diff
+ *
+ * A line outside the diff moves to the nearest line of the diff within
+ * MAX_SNAP_DISTANCE, noting the original line in the body; a range keeps
+ * only the part in the hunk of its last line.
+ *
+ * @returns The placed comment, or null if it cannot be placed
+ */
+export function anchorComment(comment: ReviewComment, commentable: CommentableLines): ReviewComment | null {
+  const lines = commentable.get(comment.path);
+  if (!lines) return null;
+
+  const line = lines.has(comment.line) ? comment.line : nearestLine(lines, comment.line);
+  if (line === null) return null;
+  const hunk = lines.get(line);
+
+  // The start of a range must be an earlier line of the same hunk
+  let startLine: number | undefined;
+  if (comment.start_line !== undefined && comment.start_line < line) {
+    for (let l = comment.start_line; l < line; l++) {
+      if (lines.get(l) === hunk) {
+        startLine = l;
+        break;
+      }
+    }
+  }
+
+  const original = comment.start_line ? `lines ${comment.start_line}-${comment.line}` : `line ${comment.line}`;
+  const moved = line !== comment.line || startLine !== comment.start_line;
+  return {
+    path: comment.path,
+    line,
+    ...(startLine !== undefined ? { start_line: startLine } : {}),
+    body: moved ? `*(Refers to ${original}, which is not entirely part of the diff.)*\n\n${comment.body}` : comment.body,
+  };
+}
+
+/**
+ * Places each comment on the diff, separating those that cannot be placed
+ */
+export function anchorComments(comments: ReviewComment[], commentable: CommentableLines): AnchoredComments {
+  const anchored: ReviewComment[] = [];
+  const unanchored: ReviewComment[] = [];
+  for (const comment of comments) {
+    const placed = anchorComment(comment, commentable);
+    if (placed) anchored.push(placed);
+    else unanchored.push(comment);
+  }
+  return { anchored, unanchored };
+}
+
+/**
+ * Formats comments that could not be placed on the diff for the review body
+ */
+export function formatUnanchoredComments(comments: ReviewComment[]): string {
+  if (comments.length === 0) return '';
+  const entries = comments.map((comment) => {
+    const lines = comment.start_line ? `lines ${comment.start_line}-${comment.line}` : `line ${comment.line}`;
+    return `**\`${comment.path}\`** (${lines}):\n${comment.body}`;
+  });
+  return `\n### 📍 Outside the Diff\n\n${entries.join('\n\n')}\n`;
+}
+
+/**
+ * Finds the line of the diff closest to a line, preferring the earlier on a tie
+ */
+function nearestLine(lines: Map<number, number>, line: number): number | null {
+  for (let distance = 1; distance <= MAX_SNAP_DISTANCE; distance++) {
+    if (lines.has(line - distance)) return line - distance;
+    if (lines.has(line + distance)) return line + distance;
+  }
+  return null;
+}
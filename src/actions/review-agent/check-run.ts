@@ -0,0 +1,188 @@
+/**
+ * Review Check Run
+ *
+ * Publishes the review as a `GH-Agency Review` check run on the PR's head
+ * commit, so branch protection can require it like any other status
+ * check without the bot needing the right to approve PRs. Findings with
+ * a line become annotations on the changed files.
+ */
+
+import * as core from '@actions/core';
+import type { ReviewIssue, ReviewResult } from '../../shared/index.js';
+import type { createOctokit, RepoRef } from '../../sdk/index.js';
+import type { SkippedFile } from './chunking.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** Name of the check run; the name to require in branch protection */
+export const CHECK_RUN_NAME = 'GH-Agency Review';
+
+/** Most annotations the Checks API accepts per request */
+const ANNOTATIONS_PER_REQUEST = 50;
+
+/** Findings listed in the summary before it is cut short */
+const MAX_SUMMARY_FINDINGS = 100;
+
+/** Longest summary the Checks API accepts */
+const MAX_SUMMARY_LENGTH = 65535;
+
+/** Review events, as returned by mapAssessmentToEvent */
+export type ReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+
+/** Conclusion of the check run */
+export type CheckConclusion = 'success' | 'failure' | 'neutral';
+
+/** A check run annotation */
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  title: string;
+  message: string;
+}
+
+const ANNOTATION_LEVELS: Record<ReviewIssue['severity'], CheckAnnotation['annotation_level']> = {
+  critical: 'failure',
+  high: 'failure',
+  medium: 'warning',
+  low: 'notice',
+};
+
+/**
+ * Maps the review event to the check run's conclusion
+ */
+export function mapEventToConclusion(event: ReviewEvent): CheckConclusion {
+  if (event === 'APPROVE') return 'success';
+  if (event === 'REQUEST_CHANGES') return 'failure';
+  return 'neutral';
+}
+
+/**
+ * Builds an annotation for each finding that has a line
+ *
+ * A finding with a suggested fix is annotated over the fix's range.
+ */
+export function buildAnnotations(result: Pick<ReviewResult, 'securityIssues' | 'codeQualityIssues'>): CheckAnnotation[] {
+  const annotate = (issue: ReviewIssue, category: string): CheckAnnotation[] => {
+    if (!issue.line) return [];
+    return [{
+      path: issue.file,
+      start_line: issue.fix?.startLine ?? issue.line,
+      end_line: issue.fix?.endLine ?? issue.line,
+      annotation_level: ANNOTATION_LEVELS[issue.severity],
+      title: `${category} (${issue.severity})`,
+      message: issue.suggestion ? `${issue.description}\n\nSuggestion: ${issue.suggestion}` : issue.description,
+    }];
+  };
+
+  return [
+    ...result.securityIssues.flatMap((issue) => annotate(issue, 'Security')),
+    ...result.codeQualityIssues.flatMap((issue) => annotate(issue, 'Code quality')),
+  ];
+}
+
+/**
+ * Builds the check run's title and markdown summary
+ */
+export function buildCheckOutput(
+  result: ReviewResult,
+  event: ReviewEvent,
+  skipped: SkippedFile[] = []
+): { title: string; summary: string } {
+  const security = result.securityIssues.length;
+  const quality = result.codeQualityIssues.length;
+  const title = security + quality === 0
+    ? 'No issues found'
+    : `${security} security issue(s), ${quality} code quality issue(s)`;
+
+  const count = (issues: ReviewIssue[], severity: ReviewIssue['severity']) =>
+    issues.filter((i) => i.severity === severity).length;
+  const row = (name: string, issues: ReviewIssue[]) =>
+    `| ${name} | ${count(issues, 'critical')} | ${count(issues, 'high')} | ${count(issues, 'medium')} | ${count(issues, 'low')} |`;
+
+  const outcome = {
+    APPROVE: '✅ **Approved** - no blocking issues',
+    REQUEST_CHANGES: '🚫 **Changes requested** - blocking issues found',
+    COMMENT: '💬 **Commented**',
+  }[event];
+
+  const sections = [
+    outcome,
+    '',
+    '| Category | Critical | High | Medium | Low |',
+    '|----------|----------|------|--------|-----|',
+    row('Security', result.securityIssues),
+    row('Code quality', result.codeQualityIssues),
+    '',
+    result.summary,
+  ];
+
+  const findings = [
+    ...result.securityIssues.map((issue) => ({ issue, icon: '🔒' })),
+    ...result.codeQualityIssues.map((issue) => ({ issue, icon: '📝' })),
+  ];
+  if (findings.length > 0) {
+    sections.push('', '### Findings', '');
+    for (const { issue, icon } of findings.slice(0, MAX_SUMMARY_FINDINGS)) {
+      sections.push(`- ${icon} **${issue.severity}** \`${issue.file}${issue.line ? `:${issue.line}` : ''}\`: ${issue.description}`);
+    }
+    if (findings.length > MAX_SUMMARY_FINDINGS) {
+      sections.push(`- ...and ${findings.length - MAX_SUMMARY_FINDINGS} more`);
+    }
+  }
+
+  if (skipped.length > 0) {
+    sections.push('', '### Not Reviewed', '');
+    for (const { file, reason } of skipped) sections.push(`- \`${file}\`: ${reason}`);
+  }
+
+  const summary = sections.join('\n');
+  return {
+    title,
+    summary: summary.length > MAX_SUMMARY_LENGTH ? `${summary.substring(0, MAX_SUMMARY_LENGTH - 20)}\n\n[...TRUNCATED]` : summary,
+  };
+}
+
+/**
+ * Creates the completed review check run on a commit
+ *
+ * Annotations beyond the per-request limit are added by updating the
+ * run. Failures (e.g. a token without `checks: write`) are logged as
+ * warnings and do not fail the review.
+ */
+export async function publishCheckRun(
+  octokit: Octokit,
+  repo: RepoRef,
+  headSha: string,
+  result: ReviewResult,
+  event: ReviewEvent,
+  skipped: SkippedFile[] = []
+): Promise<void> {
+  const output = buildCheckOutput(result, event, skipped);
+  const annotations = buildAnnotations(result);
+
+  try {
+    const { data: checkRun } = await octokit.rest.checks.create({
+      owner: repo.owner,
+      repo: repo.repo,
+      name: CHECK_RUN_NAME,
+      head_sha: headSha,
+      status: 'completed',
+      conclusion: mapEventToConclusion(event),
+      output: { ...output, annotations: annotations.slice(0, ANNOTATIONS_PER_REQUEST) },
+    });
+
+    for (let i = ANNOTATIONS_PER_REQUEST; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+      await octokit.rest.checks.update({
+        owner: repo.owner,
+        repo: repo.repo,
+        check_run_id: checkRun.id,
+        output: { ...output, annotations: annotations.slice(i, i + ANNOTATIONS_PER_REQUEST) },
+      });
+    }
+    core.info(`Published ${CHECK_RUN_NAME} check run (${mapEventToConclusion(event)}, ${annotations.length} annotation(s))`);
+  } catch (error) {
+    core.warning(`Failed to publish the ${CHECK_RUN_NAME} check run: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
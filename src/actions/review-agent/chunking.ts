@@ -0,0 +1,361 @@
+/**
+ * Chunked Review
+ *
+ * Splits a large pull request's diff into chunks that each fit one
+ * review prompt, so nothing is silently truncated: files are packed
+ * whole where they fit, split at hunk boundaries where they do not, and
+ * files that cannot be reviewed are reported with a reason. The chunk
+ * reviews are merged back into one result, duplicates removed and
+ * findings ranked by severity.
+ */
+
+import type { ReviewIssue, ReviewResult } from '../../shared/index.js';
+import type { DiffFile, DiffHunk } from './diff.js';
+
+/** Rough characters per token for source code */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Tokens of diff per chunk; keeps each prompt well under the 100KB the
+ * input sanitizer truncates at
+ */
+export const DEFAULT_CHUNK_TOKENS = 15000;
+
+/** Most chunks one review sends to the model */
+export const DEFAULT_MAX_CHUNKS = 12;
+
+/** Lock files, minified bundles and source maps; too noisy to review */
+const GENERATED_FILE_PATTERNS = [
+  /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|packages\.lock\.json|Cargo\.lock|Gemfile\.lock|poetry\.lock|Pipfile\.lock|composer\.lock|go\.sum)$/,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+];
+
+const SEVERITY_RANK: Record<ReviewIssue['severity'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+const ASSESSMENT_RANK: Record<ReviewResult['overallAssessment'], number> = {
+  'request-changes': 0,
+  comment: 1,
+  approve: 2,
+};
+
+/** Part of the diff reviewed in one prompt */
+export interface ReviewChunk {
+  /** Files with changes in this chunk */
+  files: string[];
+  diff: string;
+  tokens: number;
+}
+
+/** A changed file that was not (fully) reviewed */
+export interface SkippedFile {
+  file: string;
+  reason: string;
+}
+
+/** How a diff is reviewed */
+export interface ReviewPlan {
+  chunks: ReviewChunk[];
+  skipped: SkippedFile[];
+}
+
+/** A file's diff, or a run of its hunks */
+interface Segment {
+  file: string;
+  text: string;
+  /** Hunks of the file in this segment */
+  hunks: number;
+}
+
+/**
+ * Estimates the tokens in a piece of diff
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Checks whether a file is a lock file or build output not worth reviewing
+ */
+export function isGeneratedFile(path: string): boolean {
+  return GENERATED_FILE_PATTERNS.some((pattern) => pattern.test(path));
+}
+
+/**
+ * Splits a diff into chunks of at most `maxTokens` tokens each
+ *
+ * Binary and generated files and files without content changes are
+ * skipped. When the diff needs more than `maxChunks` chunks, the files
+ * that did not fit are skipped, and files only partly covered are
+ * reported as such.
+ */
+export function planReviewChunks(
+  files: DiffFile[],
+  maxTokens: number = DEFAULT_CHUNK_TOKENS,
+  maxChunks: number = DEFAULT_MAX_CHUNKS
+): ReviewPlan {
+  const skipped: SkippedFile[] = [];
+  const segments: Segment[] = [];
+  const totalHunks = new Map<string, number>();
+
+  for (const file of files) {
+    const path = file.newPath ?? file.oldPath ?? '';
+    if (file.binary) {
+      skipped.push({ file: path, reason: 'binary file' });
+    } else if (isGeneratedFile(path)) {
+      skipped.push({ file: path, reason: 'lock file or generated output' });
+    } else if (file.hunks.length === 0) {
+      skipped.push({ file: path, reason: 'no content changes (rename or mode change only)' });
+    } else {
+      totalHunks.set(path, file.hunks.length);
+      segments.push(...splitFile(path, file, maxTokens));
+    }
+  }
+
+  // Pack segments in diff order so each file's parts stay together
+  const packed: Segment[][] = [];
+  let current: Segment[] = [];
+  let currentTokens = 0;
+  for (const segment of segments) {
+    const tokens = estimateTokens(segment.text);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      packed.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(segment);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) packed.push(current);
+
+  const chunks = packed.slice(0, maxChunks).map((group) => {
+    const diff = group.map((s) => s.text).join('\n');
+    return { files: [...new Set(group.map((s) => s.file))], diff, tokens: estimateTokens(diff) };
+  });
+  if (packed.length <= maxChunks) return { chunks, skipped };
+
+  // Report the files the kept chunks do not fully cover
+  const reviewedHunks = new Map<string, number>();
+  for (const segment of packed.slice(0, maxChunks).flat()) {
+    reviewedHunks.set(segment.file, (reviewedHunks.get(segment.file) ?? 0) + segment.hunks);
+  }
+  for (const [file, total] of totalHunks) {
+    const reviewed = reviewedHunks.get(file) ?? 0;
+    if (reviewed === 0) {
+      skipped.push({ file, reason: `review limit of ${maxChunks} chunks reached` });
+    } else if (reviewed < total) {
+      skipped.push({ file, reason: `partly reviewed: ${reviewed} of ${total} hunks before the review limit of ${maxChunks} chunks` });
+    }
+  }
+  return { chunks, skipped };
+}
+
+/**
+ * Rebuilds a PR's diff from the per-file patches of the files API
+ *
+ * Used when GitHub refuses to render the whole diff. Files whose patch
+ * the API leaves out because it is too large are reported as skipped.
+ */
+export function diffFromPatches(
+  files: Array<{ filename: string; status: string; additions: number; deletions: number; patch?: string }>
+): { diff: string; skipped: SkippedFile[] } {
+  const sections: string[] = [];
+  const skipped: SkippedFile[] = [];
+  for (const file of files) {
+    if (!file.patch && file.additions + file.deletions > 0) {
+      skipped.push({ file: file.filename, reason: 'diff too large for the GitHub API' });
+      continue;
+    }
+    sections.push([
+      `diff --git a/${file.filename} b/${file.filename}`,
+      ...(file.patch
+        ? [
+          file.status === 'added' ? '--- /dev/null' : `--- a/${file.filename}`,
+          file.status === 'removed' ? '+++ /dev/null' : `+++ b/${file.filename}`,
+          file.patch,
+        ]
+        : []),
+    ].join('\n'));
+  }
+  return { diff: sections.join('\n'), skipped };
+}
+
+/**
+ * Merges the reviews of a PR's chunks into one result
+ *
+ * Findings reported by more than one chunk are kept once, and each list
+ * is ordered by severity. The strictest assessment wins.
+ */
+export function mergeChunkResults(results: ReviewResult[]): ReviewResult {
+  const suggestions = new Map<string, ReviewResult['suggestions'][number]>();
+  for (const result of results) {
+    for (const suggestion of result.suggestions ?? []) {
+      suggestions.set(JSON.stringify(suggestion), suggestion);
+    }
+  }
+
+  return {
+    overallAssessment: results
+      .map((r) => r.overallAssessment)
+      .reduce<ReviewResult['overallAssessment']>(
+        (worst, assessment) => (ASSESSMENT_RANK[assessment] < ASSESSMENT_RANK[worst] ? assessment : worst),
+        'approve'
+      ),
+    securityIssues: rankFindings(results.flatMap((r) => r.securityIssues)),
+    codeQualityIssues: rankFindings(results.flatMap((r) => r.codeQualityIssues)),
+    suggestions: [...suggestions.values()],
+    summary: [...new Set(results.map((r) => r.summary).filter(Boolean))].join('\n\n'),
+  };
+}
+
+/**
+ * Keeps only the synthesized findings that correspond to a chunk finding
+ * of the same category, file and line, so the synthesis pass can merge
+ * and reorder findings but not invent or move them
+ */
+export function keepChunkFindings(synthesized: ReviewResult, merged: ReviewResult): ReviewResult {
+  const locate = (issue: ReviewIssue) => `${issue.file}:${issue.line ?? ''}`;
+  const keep = (issues: ReviewIssue[], known: ReviewIssue[]) => {
+    const locations = new Set(known.map(locate));
+    return issues.filter((issue) => locations.has(locate(issue)));
+  };
+  return {
+    ...synthesized,
+    securityIssues: keep(synthesized.securityIssues, merged.securityIssues),
+    codeQualityIssues: keep(synthesized.codeQualityIssues, merged.codeQualityIssues),
+  };
+}
+
+/**
+ * Removes duplicate findings and orders the rest by severity, then location
+ */
+export function rankFindings(issues: ReviewIssue[]): ReviewIssue[] {
+  const unique = new Map<string, ReviewIssue>();
+  for (const issue of issues) {
+    const key = `${issue.file}:${issue.line ?? ''}:${issue.description.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+    const existing = unique.get(key);
+    if (!existing || SEVERITY_RANK[issue.severity] < SEVERITY_RANK[existing.severity]) {
+      unique.set(key, issue);
+    }
+  }
+  return [...unique.values()].sort(
+    (a, b) =>
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      a.file.localeCompare(b.file) ||
+      (a.line ?? 0) - (b.line ?? 0)
+  );
+}
+
+/**
+ * Runs a task for each item with at most `limit` running at once
+ *
+ * Results keep the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]!, index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Splits one file's diff into segments that fit a chunk
+ *
+ * Hunks are grouped while they fit; a hunk too large on its own is cut
+ * into line ranges, each with its own `@@` header.
+ */
+function splitFile(path: string, file: DiffFile, maxTokens: number): Segment[] {
+  if (estimateTokens(file.patch) <= maxTokens) {
+    return [{ file: path, text: file.patch, hunks: file.hunks.length }];
+  }
+
+  // The patch is the file header followed by one `@@` block per hunk
+  const patchLines = file.patch.split('\n');
+  const firstHunk = patchLines.findIndex((line) => line.startsWith('@@ '));
+  const header = patchLines.slice(0, firstHunk).join('\n');
+  const hunkTexts: string[] = [];
+  for (const line of patchLines.slice(firstHunk)) {
+    if (line.startsWith('@@ ')) hunkTexts.push(line);
+    else hunkTexts[hunkTexts.length - 1] += `\n${line}`;
+  }
+
+  const budget = maxTokens - estimateTokens(header);
+  const segments: Segment[] = [];
+  let group: string[] = [];
+  let groupTokens = 0;
+  const flush = () => {
+    if (group.length === 0) return;
+    segments.push({ file: path, text: [header, ...group].join('\n'), hunks: group.length });
+    group = [];
+    groupTokens = 0;
+  };
+
+  hunkTexts.forEach((text, i) => {
+    const tokens = estimateTokens(text);
+    if (tokens > budget) {
+      flush();
+      const parts = splitHunk(file.hunks[i]!, budget);
+      parts.forEach((part, j) => {
+        // The hunk counts as reviewed with its last part
+        segments.push({ file: path, text: `${header}\n${part}`, hunks: j === parts.length - 1 ? 1 : 0 });
+      });
+      return;
+    }
+    if (groupTokens + tokens > budget) flush();
+    group.push(text);
+    groupTokens += tokens;
+  });
+  flush();
+
+  return segments;
+}
+
+/**
+ * Cuts a hunk into consecutive hunks of at most `maxTokens` tokens
+ */
+function splitHunk(hunk: DiffHunk, maxTokens: number): string[] {
+  const parts: string[] = [];
+  // Next line on each side; an empty side's start is the line before it
+  let oldLine = hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+  let newLine = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+  let lines: string[] = [];
+  let tokens = 0;
+  let oldCount = 0;
+  let newCount = 0;
+
+  const flush = () => {
+    if (lines.length === 0) return;
+    const oldStart = oldCount === 0 ? oldLine - 1 : oldLine;
+    const newStart = newCount === 0 ? newLine - 1 : newLine;
+    parts.push([`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...lines].join('\n'));
+    oldLine += oldCount;
+    newLine += newCount;
+    lines = [];
+    tokens = 0;
+    oldCount = 0;
+    newCount = 0;
+  };
+
+  for (const line of hunk.lines) {
+    const text = `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.content}`;
+    const lineTokens = estimateTokens(`${text}\n`);
+    if (tokens + lineTokens > maxTokens) flush();
+    lines.push(text);
+    tokens += lineTokens;
+    if (line.type !== 'added') oldCount++;
+    if (line.type !== 'removed') newCount++;
+  }
+  flush();
+
+  return parts;
+}
@@ -0,0 +1,173 @@
+/**
+ * Unified Diff Parsing
+ *
+ * Parses the unified diffs GitHub returns for pull requests and commit
+ * comparisons into per-file hunks with old- and new-side line numbers,
+ * so findings can be tracked across pushes and anchored to lines.
+ */
+
+/** One line of a hunk */
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  /** Line number before the change (context and removed lines) */
+  oldLine?: number;
+  /** Line number after the change (context and added lines) */
+  newLine?: number;
+  content: string;
+}
+
+/** One `@@` hunk */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/** Commentable lines of each file's new version, with their hunk index */
+export type CommentableLines = Map<string, Map<number, number>>;
+
+/** The changes to one file */
+export interface DiffFile {
+  /** Path before the change; null for added files */
+  oldPath: string | null;
+  /** Path after the change; null for deleted files */
+  newPath: string | null;
+  binary: boolean;
+  hunks: DiffHunk[];
+  /** This file's section of the diff, headers included */
+  patch: string;
+}
+
+const FILE_HEADER = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses a unified diff (as produced by `git diff`) into files and hunks
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let patchLines: string[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  const finish = () => {
+    if (file) {
+      file.patch = patchLines.join('\n');
+      files.push(file);
+    }
+  };
+
+  for (const line of diff.split('\n')) {
+    const header = FILE_HEADER.exec(line);
+    if (header) {
+      finish();
+      file = { oldPath: header[1] ?? null, newPath: header[2] ?? null, binary: false, hunks: [], patch: '' };
+      hunk = null;
+      patchLines = [line];
+      continue;
+    }
+    if (!file) continue;
+    patchLines.push(line);
+
+    if (!hunk) {
+      // Extended headers between `diff --git` and the first hunk
+      if (line.startsWith('--- ')) {
+        file.oldPath = parseHeaderPath(line.substring(4), 'a/');
+      } else if (line.startsWith('+++ ')) {
+        file.newPath = parseHeaderPath(line.substring(4), 'b/');
+      } else if (line.startsWith('rename from ')) {
+        file.oldPath = line.substring('rename from '.length);
+      } else if (line.startsWith('rename to ')) {
+        file.newPath = line.substring('rename to '.length);
+      } else if (line.startsWith('new file mode')) {
+        file.oldPath = null;
+      } else if (line.startsWith('deleted file mode')) {
+        file.newPath = null;
+      } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.binary = true;
+      }
+    }
+
+    const hunkHeader = HUNK_HEADER.exec(line);
+    if (hunkHeader) {
+      hunk = {
+        oldStart: Number(hunkHeader[1]),
+        oldLines: hunkHeader[2] === undefined ? 1 : Number(hunkHeader[2]),
+        newStart: Number(hunkHeader[3]),
+        newLines: hunkHeader[4] === undefined ? 1 : Number(hunkHeader[4]),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      continue;
+    }
+    if (!hunk) continue;
+
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'added', newLine: newLine++, content: line.substring(1) });
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'removed', oldLine: oldLine++, content: line.substring(1) });
+    } else if (line.startsWith(' ')) {
+      hunk.lines.push({ type: 'context', oldLine: oldLine++, newLine: newLine++, content: line.substring(1) });
+    }
+    // "\ No newline at end of file" and blank trailing lines carry no line numbers
+  }
+  finish();
+
+  return files;
+}
+
+/**
+ * Follows a line of the old version of a file to its number in the new version
+ *
+ * @returns The new line number, or null if the line was changed or removed
+ */
+export function mapLineThroughDiff(file: DiffFile, line: number): number | null {
+  if (file.newPath === null) return null;
+
+  let offset = 0;
+  for (const hunk of file.hunks) {
+    // A pure insertion (`-N,0`) goes after line N
+    if (line < (hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart)) break;
+    if (line < hunk.oldStart + hunk.oldLines) {
+      const match = hunk.lines.find((l) => l.oldLine === line);
+      return match?.type === 'context' ? match.newLine ?? null : null;
+    }
+    offset += hunk.newLines - hunk.oldLines;
+  }
+  return line + offset;
+}
+
+/**
+ * Maps each file to the lines of its new version that a review comment
+ * can be placed on (added and context lines), with the index of the hunk
+ * each line is in
+ */
+export function getCommentableLines(files: DiffFile[]): CommentableLines {
+  const map: CommentableLines = new Map();
+  for (const file of files) {
+    if (file.newPath === null) continue;
+    const lines = new Map<number, number>();
+    file.hunks.forEach((hunk, index) => {
+      for (const line of hunk.lines) {
+        if (line.newLine !== undefined) lines.set(line.newLine, index);
+      }
+    });
+    map.set(file.newPath, lines);
+  }
+  return map;
+}
+
+/**
+ * Strips the `a/` or `b/` prefix from a `---`/`+++` path (`/dev/null` is no file)
+ */
+function parseHeaderPath(value: string, prefix: string): string | null {
+  const unquoted = value.replace(/^"(.*)"$/, '$1').replace(/\t.*$/, '');
+  if (unquoted === '/dev/null') return null;
+  return unquoted.startsWith(prefix) ? unquoted.substring(prefix.length) : unquoted;
+}
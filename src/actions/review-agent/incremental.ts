@@ -0,0 +1,197 @@
+/**
+ * Incremental Review
+ *
+ * Lets a re-review cover only the commits pushed since the agent's last
+ * review instead of repeating its findings on every push. The reviewed
+ * head SHA is read from that review's audit block and its open findings
+ * from a hidden state block; findings whose lines changed since are
+ * reported as resolved, the rest are carried forward.
+ */
+
+import * as core from '@actions/core';
+import { validateReviewOutput, isBot, type ReviewIssue, type ReviewResult } from '../../shared/index.js';
+import type { createOctokit, PullRequestRef } from '../../sdk/index.js';
+// Imported directly so this module does not load the Copilot client
+import { parseAuditLog } from '../../sdk/github-api.js';
+import { parseUnifiedDiff, mapLineThroughDiff, type DiffFile } from './diff.js';
+
+type Octokit = ReturnType<typeof createOctokit>;
+
+/** A finding with the section of the review it belongs to */
+export interface TrackedFinding extends ReviewIssue {
+  category: 'security' | 'quality';
+}
+
+/** What the agent's last review of the PR covered */
+export interface PreviousReview {
+  headSha: string;
+  /** Findings that were still open after that review */
+  findings: TrackedFinding[];
+}
+
+/** Earlier findings as of the commits being reviewed */
+export interface FindingHistory {
+  /** Head SHA of the previous review */
+  sinceSha: string;
+  /** Still open, with lines moved to the new head */
+  carried: TrackedFinding[];
+  /** The lines they referenced have changed */
+  resolved: TrackedFinding[];
+}
+
+/** Hidden block in the review body holding the open findings */
+const STATE_PATTERN = /<!-- gh-agency-review-findings ([\s\S]*?) -->/;
+
+/** Signature every agent review ends with */
+const REVIEW_SIGNATURE = 'GH-Agency Review Agent';
+
+/**
+ * Lists a review's findings with their category
+ */
+export function trackFindings(result: Pick<ReviewResult, 'securityIssues' | 'codeQualityIssues'>): TrackedFinding[] {
+  return [
+    ...result.securityIssues.map((issue) => ({ ...issue, category: 'security' as const })),
+    ...result.codeQualityIssues.map((issue) => ({ ...issue, category: 'quality' as const })),
+  ];
+}
+
+/**
+ * Adds the findings still open from earlier reviews to a review's result
+ *
+ * A new finding on the same line replaces the earlier one.
+ */
+export function withCarriedFindings(result: ReviewResult, carried: TrackedFinding[]): ReviewResult {
+  const reported = trackFindings(result);
+  const open = carried.filter(
+    (finding) =>
+      !reported.some((f) => f.category === finding.category && f.file === finding.file && f.line !== undefined && f.line === finding.line)
+  );
+  const strip = ({ category: _category, ...issue }: TrackedFinding): ReviewIssue => issue;
+  return {
+    ...result,
+    securityIssues: [...result.securityIssues, ...open.filter((f) => f.category === 'security').map(strip)],
+    codeQualityIssues: [...result.codeQualityIssues, ...open.filter((f) => f.category === 'quality').map(strip)],
+  };
+}
+
+/**
+ * Formats the open findings as a hidden block for the next review to pick up
+ */
+export function formatFindingsState(result: Pick<ReviewResult, 'securityIssues' | 'codeQualityIssues'>): string {
+  // Fixes are not kept; their lines would be stale by the next review
+  const withoutFix = ({ fix: _fix, ...issue }: ReviewIssue): ReviewIssue => issue;
+  const state = {
+    securityIssues: result.securityIssues.map(withoutFix),
+    codeQualityIssues: result.codeQualityIssues.map(withoutFix),
+  };
+  // `>` is escaped so no finding can end the HTML comment early
+  return `\n<!-- gh-agency-review-findings ${JSON.stringify(state).replace(/>/g, '\\u003e')} -->`;
+}
+
+/**
+ * Finds the agent's most recent review that recorded the commit it covered
+ *
+ * Only reviews posted by bots are trusted, since anyone can quote the
+ * signature and audit block in a review of their own.
+ */
+export function findPreviousReview(
+  reviews: Array<{ user: string; body: string }>
+): PreviousReview | null {
+  for (let i = reviews.length - 1; i >= 0; i--) {
+    const review = reviews[i];
+    if (!review || !isBot(review.user) || !review.body.includes(REVIEW_SIGNATURE)) continue;
+
+    const headSha = parseAuditLog(review.body)?.headSha;
+    // The latest agent review decides; one without a recorded head needs a full review
+    if (!headSha || !/^[0-9a-f]{40}$/.test(headSha)) return null;
+
+    const state = STATE_PATTERN.exec(review.body)?.[1];
+    // Findings are validated like model output before being reused
+    const findings = state ? trackFindings(validateReviewOutput(state)) : [];
+    return { headSha, findings };
+  }
+  return null;
+}
+
+/**
+ * Splits earlier findings into those the new commits resolved and those still open
+ *
+ * A finding is resolved when its file was deleted or its line was changed
+ * or removed, or when the PR no longer changes the file; open findings
+ * follow renames and line shifts. Findings without a line stay open.
+ */
+export function carryForwardFindings(
+  findings: TrackedFinding[],
+  changes: DiffFile[],
+  prFiles: string[]
+): { carried: TrackedFinding[]; resolved: TrackedFinding[] } {
+  const carried: TrackedFinding[] = [];
+  const resolved: TrackedFinding[] = [];
+
+  for (const finding of findings) {
+    const file = changes.find((f) => f.oldPath === finding.file);
+    if (!file) {
+      (prFiles.includes(finding.file) ? carried : resolved).push(finding);
+      continue;
+    }
+    if (file.newPath === null) {
+      resolved.push(finding);
+      continue;
+    }
+    if (finding.line === undefined) {
+      carried.push({ ...finding, file: file.newPath });
+      continue;
+    }
+    const line = mapLineThroughDiff(file, finding.line);
+    if (line === null) {
+      resolved.push(finding);
+    } else {
+      carried.push({ ...finding, file: file.newPath, line });
+    }
+  }
+
+  return { carried, resolved };
+}
+
+/**
+ * Fetches the diff of the commits pushed since a previous review
+ *
+ * Files outside the PR (brought in by merging the base branch) are left
+ * out. Returns null when the previous head is not an ancestor of the new
+ * one (e.g. after a force-push or rebase), since only a full review is
+ * meaningful then.
+ */
+export async function getIncrementalDiff(
+  octokit: Octokit,
+  ref: PullRequestRef,
+  baseSha: string,
+  headSha: string,
+  prFiles: string[]
+): Promise<DiffFile[] | null> {
+  const basehead = `${baseSha}...${headSha}`;
+  try {
+    const { data: comparison } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner: ref.owner,
+      repo: ref.repo,
+      basehead,
+      per_page: 1,
+    });
+    if (comparison.status !== 'ahead') {
+      core.info(`Last reviewed commit ${baseSha.substring(0, 7)} is ${comparison.status} of the head - reviewing the whole PR`);
+      return null;
+    }
+
+    const { data: diff } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner: ref.owner,
+      repo: ref.repo,
+      basehead,
+      mediaType: { format: 'diff' },
+    });
+    return parseUnifiedDiff(diff as unknown as string).filter(
+      (file) => prFiles.includes(file.newPath ?? '') || prFiles.includes(file.oldPath ?? '')
+    );
+  } catch (error) {
+    core.warning(`Failed to fetch the changes since ${baseSha.substring(0, 7)}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
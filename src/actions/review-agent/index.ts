@@ -43,7 +43,32 @@ import {
   addReaction,
   removeReaction,
   type PullRequestRef,
+  type ReviewComment,
 } from '../../sdk/index.js';
+import {
+  findPreviousReview,
+  carryForwardFindings,
+  withCarriedFindings,
+  formatFindingsState,
+  getIncrementalDiff,
+  type FindingHistory,
+} from './incremental.js';
+import { parseUnifiedDiff, getCommentableLines, type CommentableLines } from './diff.js';
+import {
+  planReviewChunks,
+  mergeChunkResults,
+  mapWithConcurrency,
+  diffFromPatches,
+  keepChunkFindings,
+  type ReviewPlan,
+  type SkippedFile,
+} from './chunking.js';
+import { buildIssueComment } from './suggestions.js';
+import { anchorComments, formatUnanchoredComments, type AnchoredComments } from './anchoring.js';
+import { publishCheckRun } from './check-run.js';
+
+/** Chunks of a large PR reviewed at the same time */
+const CHUNK_CONCURRENCY = 3;
 
 /** Review agent configuration */
 interface ReviewConfig {
@@ -54,6 +79,17 @@ interface ReviewConfig {
   autoApproveDependabot: boolean;
   securityFocus: boolean;
   autoMerge: boolean;
+  /** Publish the review as a check run on the head commit */
+  checkRun: boolean;
+}
+
+/** What a review covered, for the review comment */
+interface ReviewCoverage {
+  history: FindingHistory | null;
+  /** Number of chunks the diff was reviewed in */
+  parts: number;
+  /** Changed files that were not (fully) reviewed */
+  skipped: SkippedFile[];
 }
 
 /**
@@ -122,6 +158,12 @@ export async function run(): Promise<void> {
       return;
     }
 
+    // Drafts (e.g. partial agent implementations) are reviewed but never auto-merged
+    const autoMerge = config.autoMerge && !pr.draft;
+    if (config.autoMerge && pr.draft) {
+      core.info('PR is a draft - auto-merge disabled until it is marked ready for review');
+    }
+
     const ref: PullRequestRef = {
       owner: github.context.repo.owner,
       repo: github.context.repo.repo,
@@ -153,80 +195,139 @@ export async function run(): Promise<void> {
 
     // Get PR diff and files
     core.info('Fetching PR diff...');
-    const [diff, files] = await Promise.all([
-      getPullRequestDiff(octokit, ref),
-      getPullRequestFiles(octokit, ref),
-    ]);
+    const files = await getPullRequestFiles(octokit, ref);
+    let diff: string;
+    let unavailable: SkippedFile[] = [];
+    try {
+      diff = await getPullRequestDiff(octokit, ref);
+    } catch (err) {
+      // GitHub refuses to render very large diffs; fall back to the per-file patches
+      core.warning(`Could not fetch the PR diff, using per-file patches: ${err instanceof Error ? err.message : String(err)}`);
+      ({ diff, skipped: unavailable } = diffFromPatches(files));
+    }
+
+    // Get HEAD commit SHA for incremental reviews and the duplicate review check
+    let headSha = github.context.payload.pull_request?.head?.sha || '';
+    
+    // If headSha is not available (e.g., workflow_dispatch), fetch it from the API
+    if (!headSha) {
+      try {
+        const prData = await octokit.rest.pulls.get({
+          owner: ref.owner,
+          repo: ref.repo,
+          pull_number: ref.pullNumber,
+        });
+        headSha = prData.data.head.sha;
+      } catch (err) {
+        core.warning(`Could not fetch PR head SHA: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    // A re-review only covers the commits pushed since the agent's last review
+    let existingReviews: Awaited<ReturnType<typeof getPullRequestReviews>> | null = null;
+    try {
+      existingReviews = await getPullRequestReviews(reviewOctokit, ref);
+    } catch (err) {
+      core.warning(`Could not fetch earlier reviews: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const previousReview = existingReviews ? findPreviousReview(existingReviews) : null;
+    let history: FindingHistory | null = null;
+    let reviewDiff = diff;
+    let reviewFiles = files;
+    if (previousReview && headSha && previousReview.headSha !== headSha) {
+      const prFiles = files.map((f) => f.filename);
+      const changes = await getIncrementalDiff(octokit, ref, previousReview.headSha, headSha, prFiles);
+      if (changes) {
+        history = { sinceSha: previousReview.headSha, ...carryForwardFindings(previousReview.findings, changes, prFiles) };
+        reviewDiff = changes.map((c) => c.patch).join('\n');
+        reviewFiles = files.filter((f) => changes.some((c) => c.newPath === f.filename || c.oldPath === f.filename));
+        core.info(
+          `Incremental review of ${reviewFiles.length} file(s) changed since ${previousReview.headSha.substring(0, 7)} ` +
+          `(${history.carried.length} earlier finding(s) still open, ${history.resolved.length} resolved)`
+        );
+      }
+    }
+
+    // Split the diff into chunks that each fit one prompt, so nothing is truncated
+    const prDiff = parseUnifiedDiff(diff);
+    const plan = planReviewChunks(history ? parseUnifiedDiff(reviewDiff) : prDiff);
+    if (!history) plan.skipped.unshift(...unavailable);
+    if (plan.chunks.length > 1) {
+      core.info(`Diff is too large for one prompt - reviewing it in ${plan.chunks.length} chunks`);
+    }
+    for (const { file, reason } of plan.skipped) {
+      core.info(`Not reviewing ${file}: ${reason}`);
+    }
+    const coverage: ReviewCoverage = { history, parts: plan.chunks.length, skipped: plan.skipped };
 
     // Sanitize PR content
     const sanitizedTitle = sanitizeInput(pr.title, 'pr-title');
     const sanitizedBody = sanitizeInput(pr.body, 'pr-body');
-    const sanitizedDiff = sanitizeInput(diff, 'pr-diff');
 
     // Format context for the prompt
     const contextSection = formatContextForPrompt(repoContext);
 
-    // Analyze the PR using Copilot SDK
-    const result = await analyzePR(
-      sanitizedDiff.sanitized,
-      files,
-      {
-        title: sanitizedTitle.sanitized,
-        body: sanitizedBody.sanitized,
-      },
-      config.securityFocus,
-      contextSection,
-      ref.owner,
-      ref.repo,
-      config.model
-    );
-
-    // Validate the result
+    // Analyze the PR using Copilot SDK (nothing to analyze if only files outside the PR changed)
+    const result = history && reviewFiles.length === 0
+      ? createUnchangedReviewResult(history)
+      : await reviewChunks(
+        plan,
+        reviewFiles,
+        {
+          title: sanitizedTitle.sanitized,
+          body: sanitizedBody.sanitized,
+        },
+        config,
+        contextSection,
+        ref,
+        history
+      );
+
+    // Validate the result; findings still open from earlier reviews count toward the outcome
     const validated = validateReviewOutput(result);
+    const combined = history ? withCarriedFindings(validated, history.carried) : validated;
 
     // Output results
-    core.setOutput('assessment', validated.overallAssessment);
-    core.setOutput('security-issues', JSON.stringify(validated.securityIssues));
-    core.setOutput('quality-issues', JSON.stringify(validated.codeQualityIssues));
-    core.setOutput('summary', validated.summary);
+    core.setOutput('assessment', combined.overallAssessment);
+    core.setOutput('security-issues', JSON.stringify(combined.securityIssues));
+    core.setOutput('quality-issues', JSON.stringify(combined.codeQualityIssues));
+    core.setOutput('summary', combined.summary);
+    core.setOutput('skipped-files', JSON.stringify(plan.skipped));
+
+    // Determine review action
+    const event = mapAssessmentToEvent(combined);
+
+    // The check run carries the same outcome, for branch protection to require.
+    // It is published in every mode, and whether or not the review can be posted
+    // (e.g. by a token that may not approve PRs).
+    if (config.checkRun) {
+      if (headSha) {
+        await publishCheckRun(octokit, ref, headSha, combined, event, plan.skipped);
+      } else {
+        core.warning('Head commit unknown - skipping the review check run');
+      }
+    }
 
     if (config.mode === 'analyze-only') {
       core.info('Analyze-only mode - saving results to artifact');
       // In analyze-only mode, just output the results
       // The post-review action would use these in a workflow_run trigger
-      core.setOutput('review-result', JSON.stringify(validated));
+      core.setOutput('review-result', JSON.stringify(combined));
       return;
     }
 
-    // Determine review action
-    const event = mapAssessmentToEvent(validated);
+    // Build inline comments (earlier findings already have theirs); those off the diff go in the body
+    const { anchored: inlineComments, unanchored } = buildInlineComments(validated, getCommentableLines(prDiff));
+    if (unanchored.length > 0) {
+      core.info(`${unanchored.length} inline comment(s) are outside the diff - adding them to the review body`);
+    }
 
     // Build review comment
-    const reviewBody = buildReviewComment(validated);
-
-    // Build inline comments
-    const inlineComments = buildInlineComments(validated);
+    const reviewBody = buildReviewComment(validated, coverage, unanchored);
 
-    // Get HEAD commit SHA for duplicate review check
-    let headSha = github.context.payload.pull_request?.head?.sha || '';
-    
-    // If headSha is not available (e.g., workflow_dispatch), fetch it from the API
-    if (!headSha) {
-      try {
-        const prData = await octokit.rest.pulls.get({
-          owner: ref.owner,
-          repo: ref.repo,
-          pull_number: ref.pullNumber,
-        });
-        headSha = prData.data.head.sha;
-      } catch (err) {
-        core.warning(`Could not fetch PR head SHA: ${err instanceof Error ? err.message : String(err)}`);
-      }
-    }
-    
     // Check for duplicate reviews on the same commit and track review iterations
     try {
-      const existingReviews = await getPullRequestReviews(reviewOctokit, ref);
+      existingReviews ??= await getPullRequestReviews(reviewOctokit, ref);
       const agentIdentity = 'GH-Agency Review Agent';
       
       // Check if we already reviewed this exact commit
@@ -247,15 +348,15 @@ export async function run(): Promise<void> {
       if (agentReviewCount >= 3) {
         core.warning(`PR has been reviewed ${agentReviewCount} times by agent. Auto-approving to prevent loop.`);
         // Force approve after 3 reviews to break potential loops
-        const loopBreakBody = buildReviewComment(validated) 
+        const loopBreakBody = buildReviewComment(validated, coverage, unanchored) 
           + '\n\n---\n\n⚠️ **Auto-approved after multiple review cycles.** This PR has been reviewed '
           + `${agentReviewCount} times. Approving to prevent infinite review loops. `
           + 'A human maintainer should verify the remaining suggestions above.';
-        await createPullRequestReview(reviewOctokit, ref, 'APPROVE', loopBreakBody, inlineComments);
+        await createPullRequestReview(reviewOctokit, ref, 'APPROVE', loopBreakBody, inlineComments, headSha || undefined);
         core.setOutput('review-result', 'auto-approved-loop-break');
         
         // Auto-merge logic still applies if enabled
-        if (config.autoMerge) {
+        if (autoMerge) {
           try {
             let hasAgentCodedLabel = github.context.payload.pull_request?.labels?.some(
               (l: any) => l.name === 'agent-coded'
@@ -294,7 +395,7 @@ export async function run(): Promise<void> {
       // Continue with review even if duplicate check fails
     }
 
-    // Build audit log and append to review body
+    // Build audit log and append to review body, with the open findings for the next review
     const auditEntry = createAuditEntry(
       'review-agent',
       `${pr.title}\n${diff.substring(0, 1000)}`,
@@ -304,25 +405,31 @@ export async function run(): Promise<void> {
       ],
       [
         `assessment:${validated.overallAssessment}`,
-        `security-issues:${validated.securityIssues.length}`,
-        `quality-issues:${validated.codeQualityIssues.length}`,
+        `security-issues:${combined.securityIssues.length}`,
+        `quality-issues:${combined.codeQualityIssues.length}`,
+        history ? `incremental-since:${history.sinceSha.substring(0, 7)}` : 'full-review',
+        `chunks:${plan.chunks.length}`,
+        `skipped-files:${plan.skipped.length}`,
       ],
       DEFAULT_MODEL
     );
-    const reviewBodyWithLog = reviewBody + formatAuditLog(auditEntry);
+    const reviewBodyWithLog = reviewBody
+      + formatFindingsState(combined)
+      + formatAuditLog(headSha ? { ...auditEntry, headSha } : auditEntry);
 
-    // Post the review (using App-authenticated octokit if available)
+    // Post the review (using App-authenticated octokit if available), on the commit the diff was anchored to
     core.info(`Posting review with assessment: ${validated.overallAssessment}`);
     await createPullRequestReview(
       reviewOctokit,
       ref,
       event,
       reviewBodyWithLog,
-      inlineComments
+      inlineComments,
+      headSha || undefined
     );
 
     // Auto-merge logic: if review is APPROVE and PR has agent-coded label
-    if (event === 'APPROVE' && config.autoMerge) {
+    if (event === 'APPROVE' && autoMerge) {
       try {
         // Check if PR has the 'agent-coded' label
         let hasAgentCodedLabel = github.context.payload.pull_request?.labels?.some(
@@ -359,7 +466,7 @@ export async function run(): Promise<void> {
               await createComment(octokit, issueRef,
                 `⚠️ **Auto-merge failed**: ${mergeResult.message}\n\n` +
                 'This may be due to merge conflicts or failing status checks. ' +
-                'To resolve, comment `/agent fix resolve merge conflicts` or manually rebase the branch.'
+                'To resolve, comment `/agent resolve` or manually rebase the branch.'
               );
             } catch {
               // Best-effort comment
@@ -433,6 +540,7 @@ function getConfig(): ReviewConfig {
     autoApproveDependabot: core.getBooleanInput('auto-approve-dependabot'),
     securityFocus: core.getBooleanInput('security-focus'),
     autoMerge: core.getBooleanInput('auto-merge'),
+    checkRun: core.getBooleanInput('check-run'),
   };
 }
 
@@ -441,7 +549,7 @@ function getConfig(): ReviewConfig {
  */
 async function getPRFromContext(
   octokit?: ReturnType<typeof createOctokit>
-): Promise<{ number: number; title: string; body: string } | null> {
+): Promise<{ number: number; title: string; body: string; draft: boolean } | null> {
   const payload = github.context.payload;
 
   // Check for workflow_dispatch with pr-number input
@@ -460,6 +568,7 @@ async function getPRFromContext(
           number: response.data.number,
           title: response.data.title || '',
           body: response.data.body || '',
+          draft: !!response.data.draft,
         };
       } catch (error) {
         core.error(`Failed to fetch PR #${prNumber}: ${error}`);
@@ -474,6 +583,7 @@ async function getPRFromContext(
       number: payload.pull_request.number,
       title: payload.pull_request.title || '',
       body: payload.pull_request.body || '',
+      draft: !!payload.pull_request.draft,
     };
   }
 
@@ -535,7 +645,9 @@ async function analyzePR(
   contextSection: string,
   owner: string,
   repo: string,
-  model: string
+  model: string,
+  history: FindingHistory | null = null,
+  part: { index: number; total: number } | null = null
 ): Promise<ReviewResult> {
   // Check for Copilot auth early to fail fast
   if (!hasCopilotAuth()) {
@@ -565,6 +677,8 @@ Review this pull request for security issues, code quality, and best practices.
 ${filesSummary}
 
 ${securityFocus ? '## Security Focus Mode\nPay extra attention to security vulnerabilities, credentials, and injection risks.' : ''}
+${history ? formatIncrementalInstructions(history) : ''}
+${part ? `## Review Part\nThis PR is too large to review at once and is reviewed in ${part.total} parts. The diff below is part ${part.index + 1} of ${part.total}; the files listed above cover the whole PR. Report findings only for the changes in this part.` : ''}
 
 ## Analysis Request
 1. Identify any security issues (critical, high, medium, low severity)
@@ -583,11 +697,13 @@ ${securityFocus ? '## Security Focus Mode\nPay extra attention to security vulne
   } catch (error) {
     core.warning(`Copilot SDK error: ${error instanceof Error ? error.message : error}`);
     core.warning('Falling back to basic pattern-based analysis...');
-    // Stop the client immediately to prevent background errors
-    try {
-      await stopCopilotClient();
-    } catch {
-      // Ignore stop errors
+    // Stop the client immediately to prevent background errors (other parts may still be using it)
+    if (!part) {
+      try {
+        await stopCopilotClient();
+      } catch {
+        // Ignore stop errors
+      }
     }
     return createFallbackReviewResult(diff, files);
   }
@@ -609,6 +725,144 @@ ${securityFocus ? '## Security Focus Mode\nPay extra attention to security vulne
   return parsed;
 }
 
+/**
+ * Reviews the chunks of a PR's diff and combines their findings
+ *
+ * A diff that fits one prompt is reviewed as before. Larger ones are
+ * reviewed chunk by chunk, a few at a time, each with the same PR
+ * context; a synthesis pass then merges and ranks the findings.
+ */
+async function reviewChunks(
+  plan: ReviewPlan,
+  files: Array<{ filename: string; status: string; additions: number; deletions: number; patch?: string }>,
+  prContent: { title: string; body: string },
+  config: ReviewConfig,
+  contextSection: string,
+  ref: PullRequestRef,
+  history: FindingHistory | null
+): Promise<ReviewResult> {
+  if (plan.chunks.length === 0) {
+    return {
+      overallAssessment: 'comment',
+      securityIssues: [],
+      codeQualityIssues: [],
+      suggestions: [],
+      summary: 'None of the changed files could be reviewed; see the list of files that were not reviewed.',
+    };
+  }
+
+  const review = (diff: string, part: { index: number; total: number } | null) =>
+    analyzePR(
+      sanitizeInput(diff, 'pr-diff').sanitized,
+      files,
+      prContent,
+      config.securityFocus,
+      contextSection,
+      ref.owner,
+      ref.repo,
+      config.model,
+      history,
+      part
+    );
+
+  if (plan.chunks.length === 1) return review(plan.chunks[0]!.diff, null);
+
+  const total = plan.chunks.length;
+  const results = await mapWithConcurrency(plan.chunks, CHUNK_CONCURRENCY, (chunk, index) => {
+    core.info(`Reviewing chunk ${index + 1}/${total} (${chunk.files.length} file(s), ~${chunk.tokens} tokens)`);
+    return review(chunk.diff, { index, total });
+  });
+  const merged = mergeChunkResults(results.map((r) => validateReviewOutput(r)));
+
+  return synthesizeReview(merged, total, prContent, contextSection, ref, config.model);
+}
+
+/**
+ * Asks the model to merge the chunk reviews into one review of the whole PR
+ *
+ * The model may merge, drop and reorder findings but not add new ones;
+ * without the model, or if its answer is unusable, the mechanically
+ * merged result is used.
+ */
+async function synthesizeReview(
+  merged: ReviewResult,
+  parts: number,
+  prContent: { title: string; body: string },
+  contextSection: string,
+  ref: PullRequestRef,
+  model: string
+): Promise<ReviewResult> {
+  if (!hasCopilotAuth()) return merged;
+
+  const systemPrompt = createReviewSystemPrompt()
+    .replace('{project_name}', `${ref.owner}/${ref.repo}`)
+    .replace('{context}', contextSection);
+
+  const userPrompt = `
+This pull request was too large to review at once, so it was reviewed in ${parts} parts. Below are the combined findings of all parts.
+
+## PR Information
+**Title:** ${prContent.title}
+**Description:** ${prContent.body || '(No description provided)'}
+
+## Synthesis Request
+1. Merge findings that describe the same problem, keeping the most precise file, line and severity
+2. Drop findings that are contradicted by another part of the PR
+3. Order each list from most to least important
+4. Write one summary of the whole PR and decide the overall assessment
+Do not add findings that are not in the list below.
+
+---BEGIN PART FINDINGS---
+${JSON.stringify(merged, null, 2)}
+---END PART FINDINGS---
+
+Respond with valid JSON only. Do not include any explanatory text outside the JSON.
+`.trim();
+
+  core.info(`Synthesizing the reviews of ${parts} chunks...`);
+  try {
+    const response = await sendPrompt(systemPrompt, userPrompt, { model });
+    const parsed = response.content ? parseAgentResponse<ReviewResult>(response.content) : null;
+    if (!parsed) {
+      core.warning('Could not parse the synthesized review, using the merged chunk reviews');
+      return merged;
+    }
+
+    // Findings may only come from the chunk reviews
+    return keepChunkFindings(validateReviewOutput(parsed), merged);
+  } catch (error) {
+    core.warning(`Failed to synthesize the chunk reviews: ${error instanceof Error ? error.message : String(error)}`);
+    return merged;
+  }
+}
+
+/**
+ * Tells the model to review only the new commits and not to repeat open findings
+ */
+function formatIncrementalInstructions(history: FindingHistory): string {
+  const open = history.carried.length > 0
+    ? history.carried.map((f) => `- \`${f.file}${f.line ? `:${f.line}` : ''}\` (${f.severity}): ${f.description}`).join('\n')
+    : '- (none)';
+  return `## Incremental Review
+This PR was already reviewed up to commit ${history.sinceSha.substring(0, 7)}. The diff below contains only the commits pushed since then; review only these changes.
+
+Findings from earlier reviews that are still open (do not report them again):
+${open}`;
+}
+
+/**
+ * Creates the result of a re-review whose new commits did not touch the PR's files
+ */
+function createUnchangedReviewResult(history: FindingHistory): ReviewResult {
+  return {
+    overallAssessment: history.carried.length > 0 ? 'comment' : 'approve',
+    securityIssues: [],
+    codeQualityIssues: [],
+    suggestions: [],
+    summary: `The commits since ${history.sinceSha.substring(0, 7)} do not change any files of this PR.`,
+  };
+}
+
 /**
  * Creates a fallback review result when Copilot SDK fails
  */
@@ -678,11 +932,22 @@ function mapAssessmentToEvent(result: ReviewResult): 'APPROVE' | 'REQUEST_CHANGE
 /**
  * Builds the review comment body with structured sections
  */
-function buildReviewComment(result: ReviewResult): string {
+function buildReviewComment(
+  result: ReviewResult,
+  coverage: ReviewCoverage = { history: null, parts: 1, skipped: [] },
+  unanchored: ReviewComment[] = []
+): string {
+  const { history, parts, skipped } = coverage;
   const sections: string[] = ['## ✨ AI Code Review\n'];
 
   // Overview/Summary
   sections.push('### Overview\n');
+  if (history) {
+    sections.push(`*Incremental review of the commits since ${history.sinceSha.substring(0, 7)}.*\n`);
+  }
+  if (parts > 1) {
+    sections.push(`*This PR was too large to review at once and was reviewed in ${parts} parts.*\n`);
+  }
   sections.push(result.summary);
 
   // Security Issues (by severity)
@@ -760,12 +1025,39 @@ function buildReviewComment(result: ReviewResult): string {
     }
   }
 
-  // Final Recommendation
+  // Findings from earlier reviews
+  if (history && history.carried.length > 0) {
+    sections.push('\n### 🔁 Still Open From Earlier Reviews\n');
+    for (const finding of history.carried) {
+      sections.push(`- \`${finding.file}${finding.line ? `:${finding.line}` : ''}\` (${finding.severity}): ${finding.description}`);
+    }
+  }
+  if (history && history.resolved.length > 0) {
+    sections.push('\n### ✅ Resolved Since Last Review\n');
+    for (const finding of history.resolved) {
+      sections.push(`- ~~\`${finding.file}${finding.line ? `:${finding.line}` : ''}\`: ${finding.description}~~`);
+    }
+  }
+
+  // Inline comments that could not be placed on the diff
+  const outsideDiff = formatUnanchoredComments(unanchored);
+  if (outsideDiff) sections.push(outsideDiff);
+
+  // Files left out of the review
+  if (skipped.length > 0) {
+    sections.push('\n### ⏭️ Not Reviewed\n');
+    for (const { file, reason } of skipped) {
+      sections.push(`- \`${file}\`: ${reason}`);
+    }
+  }
+
+  // Final Recommendation (open findings from earlier reviews still count)
   sections.push('\n### 📋 Final Recommendation\n');
-  const criticalCount = result.securityIssues.filter(i => i.severity === 'critical').length;
-  const highCount = result.securityIssues.filter(i => i.severity === 'high').length;
-  const mediumCount = result.securityIssues.filter(i => i.severity === 'medium').length;
-  const qualityCount = result.codeQualityIssues.length;
+  const all = history ? withCarriedFindings(result, history.carried) : result;
+  const criticalCount = all.securityIssues.filter(i => i.severity === 'critical').length;
+  const highCount = all.securityIssues.filter(i => i.severity === 'high').length;
+  const mediumCount = all.securityIssues.filter(i => i.severity === 'medium').length;
+  const qualityCount = all.codeQualityIssues.length;
 
   if (result.overallAssessment === 'approve') {
     sections.push('✅ **APPROVE** - No blocking issues found. Code looks good to merge.');
@@ -796,35 +1088,27 @@ function buildReviewComment(result: ReviewResult): string {
 
 /**
  * Builds inline comments for the review
+ *
+ * Findings with an exact fix in the PR's diff get a suggested change.
+ * Comments are placed on the diff's lines; those that cannot be are
+ * returned separately for the review body.
  */
-function buildInlineComments(
-  result: ReviewResult
-): Array<{ path: string; line: number; body: string }> {
-  const comments: Array<{ path: string; line: number; body: string }> = [];
+function buildInlineComments(result: ReviewResult, commentable: CommentableLines): AnchoredComments {
+  const comments: ReviewComment[] = [];
 
   // Add security issue comments
   for (const issue of result.securityIssues) {
-    if (issue.line) {
-      comments.push({
-        path: issue.file,
-        line: issue.line,
-        body: `🔒 **Security (${issue.severity})**: ${issue.description}${issue.suggestion ? `\n\n💡 ${issue.suggestion}` : ''}`,
-      });
-    }
+    const comment = buildIssueComment(issue, `🔒 **Security (${issue.severity})**`, commentable);
+    if (comment) comments.push(comment);
   }
 
   // Add quality issue comments
   for (const issue of result.codeQualityIssues) {
-    if (issue.line) {
-      comments.push({
-        path: issue.file,
-        line: issue.line,
-        body: `📝 **${issue.severity}**: ${issue.description}${issue.suggestion ? `\n\n💡 ${issue.suggestion}` : ''}`,
-      });
-    }
+    const comment = buildIssueComment(issue, `📝 **${issue.severity}**`, commentable);
+    if (comment) comments.push(comment);
   }
 
-  return comments;
+  return anchorComments(comments, commentable);
 }
 
 // Run the action
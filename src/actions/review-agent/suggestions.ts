@@ -0,0 +1,65 @@
+/**
+ * Suggested Changes
+ *
+ * Turns findings that come with an exact fix into GitHub suggested
+ * changes, which the PR author can apply with one click. A suggestion
+ * replaces lines of the PR's diff, so a fix whose range is not in the
+ * diff is shown as prose instead.
+ */
+
+import type { ReviewIssue, SuggestedFix } from '../../shared/index.js';
+import type { ReviewComment } from '../../sdk/index.js';
+import type { CommentableLines } from './diff.js';
+import { isRangeCommentable } from './anchoring.js';
+
+/**
+ * Checks whether a fix replaces lines of one hunk of the file's diff
+ */
+export function canAnchorFix(file: string, fix: SuggestedFix, commentable: CommentableLines): boolean {
+  return isRangeCommentable(commentable, file, fix.startLine, fix.endLine);
+}
+
+/**
+ * Formats a fix as a suggested-change block
+ */
+export function formatSuggestedChange(fix: SuggestedFix): string {
+  return fix.replacement ? `\`\`\`suggestion\n${fix.replacement}\n\`\`\`` : '```suggestion\n```';
+}
+
+/**
+ * Describes a fix that cannot be offered as a suggested change
+ */
+export function formatFixAsProse(fix: SuggestedFix): string {
+  const lines = fix.startLine === fix.endLine ? `line ${fix.startLine}` : `lines ${fix.startLine}-${fix.endLine}`;
+  if (!fix.replacement) return `Suggested change: delete ${lines}.`;
+  return `Suggested replacement for ${lines}:\n\n\`\`\`\n${fix.replacement}\n\`\`\``;
+}
+
+/**
+ * Builds the inline comment for a finding
+ *
+ * An anchorable fix becomes a suggested change covering its range;
+ * otherwise the comment goes on the finding's line with the fix as prose.
+ *
+ * @param heading - Start of the comment, e.g. the finding's severity
+ * @returns The comment, or null for a finding without a line
+ */
+export function buildIssueComment(issue: ReviewIssue, heading: string, commentable: CommentableLines): ReviewComment | null {
+  const body = `${heading}: ${issue.description}${issue.suggestion ? `\n\n💡 ${issue.suggestion}` : ''}`;
+  const { fix } = issue;
+
+  if (fix && canAnchorFix(issue.file, fix, commentable)) {
+    return {
+      path: issue.file,
+      line: fix.endLine,
+      ...(fix.startLine < fix.endLine ? { start_line: fix.startLine } : {}),
+      body: `${body}\n\n${formatSuggestedChange(fix)}`,
+    };
+  }
+  if (!issue.line) return null;
+  return {
+    path: issue.file,
+    line: issue.line,
+    body: fix ? `${body}\n\n${formatFixAsProse(fix)}` : body,
+  };
+}
@@ -22,6 +22,21 @@ export interface SessionConfig {
   tools?: string[];
   mcpServers?: Record<string, McpServerDefinition>;
   allowedUrls?: string[];
+  /** Custom tools the model may call; when set, only these tools are available */
+  toolDefinitions?: AgentToolDefinition[];
+  /** Maximum send() calls per session (default 10) */
+  maxTurns?: number;
+  /** Timeout for a single turn, including any tool calls (default 2 minutes) */
+  turnTimeoutMs?: number;
+}
+
+/** Tool implemented by the caller and exposed to the model */
+export interface AgentToolDefinition {
+  name: string;
+  description: string;
+  /** JSON schema for the tool arguments */
+  parameters: Record<string, unknown>;
+  handler: (args: Record<string, unknown>) => Promise<string> | string;
 }
 
 /** MCP server definition */
@@ -64,6 +79,7 @@ export interface CompletionOptions {
  * Singleton Copilot client instance
  */
 let copilotClientInstance: GHCopilotClient | null = null;
+let copilotClientStarting: Promise<GHCopilotClient> | null = null;
 
 /**
  * Checks if Copilot authentication is available
@@ -144,29 +160,40 @@ function findCopilotCliPath(): string | undefined {
  * The Copilot CLI handles authentication automatically
  */
 export async function getCopilotClient(): Promise<GHCopilotClient> {
-  if (!copilotClientInstance) {
-    // Check if we're in an environment where the CLI is available
-    const available = await isCopilotAvailable();
-    if (!available) {
-      throw new Error('Copilot CLI not available in this environment. AI-powered insights will use fallback.');
-    }
+  if (copilotClientInstance) return copilotClientInstance;
 
-    // Provide cliPath so the SDK never calls getBundledCliPath() which uses
-    // import.meta.resolve("@github/copilot/sdk") — that fails when running
-    // from a single-file bundle with no local node_modules.
-    const cliPath = findCopilotCliPath();
-    if (cliPath) {
-      core.info(`Copilot CLI found at: ${cliPath}`);
-    } else {
-      core.warning('Copilot CLI not found in PATH; SDK will attempt its own resolution');
-    }
+  // Concurrent callers (e.g. parallel review chunks) share one start-up
+  copilotClientStarting ??= startCopilotClient().finally(() => {
+    copilotClientStarting = null;
+  });
+  return copilotClientStarting;
+}
 
-    copilotClientInstance = new GHCopilotClient(cliPath ? { cliPath } : undefined);
-    await copilotClientInstance.start();
-    core.info('Copilot SDK client initialized');
+/**
+ * Starts a new Copilot client
+ */
+async function startCopilotClient(): Promise<GHCopilotClient> {
+  // Check if we're in an environment where the CLI is available
+  const available = await isCopilotAvailable();
+  if (!available) {
+    throw new Error('Copilot CLI not available in this environment. AI-powered insights will use fallback.');
   }
 
-  return copilotClientInstance;
+  // Provide cliPath so the SDK never calls getBundledCliPath() which uses
+  // import.meta.resolve("@github/copilot/sdk") — that fails when running
+  // from a single-file bundle with no local node_modules.
+  const cliPath = findCopilotCliPath();
+  if (cliPath) {
+    core.info(`Copilot CLI found at: ${cliPath}`);
+  } else {
+    core.warning('Copilot CLI not found in PATH; SDK will attempt its own resolution');
+  }
+
+  const client = new GHCopilotClient(cliPath ? { cliPath } : undefined);
+  await client.start();
+  copilotClientInstance = client;
+  core.info('Copilot SDK client initialized');
+  return client;
 }
 
 /**
@@ -259,11 +286,13 @@ export class AgentSession {
   private session: Awaited<ReturnType<GHCopilotClient['createSession']>> | null = null;
   private messages: Message[] = [];
   private turnCount = 0;
-  private readonly maxTurns = 10;
+  private readonly maxTurns: number;
+  private pendingToolCalls: ToolCall[] = [];
 
   constructor(client: GHCopilotClient, config: SessionConfig) {
     this.client = client;
     this.config = config;
+    this.maxTurns = config.maxTurns ?? 10;
     this.messages.push({
       role: 'system',
       content: config.systemPrompt,
@@ -275,12 +304,27 @@ export class AgentSession {
    */
   private async ensureSession(): Promise<Awaited<ReturnType<GHCopilotClient['createSession']>>> {
     if (!this.session) {
+      const definitions = this.config.toolDefinitions;
       this.session = await this.client.createSession({
         model: this.config.model,
         systemMessage: {
           mode: 'replace',
           content: this.config.systemPrompt,
         },
+        ...(definitions && {
+          tools: definitions.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+            handler: (args: unknown, invocation: { toolCallId: string }) => {
+              const toolArgs = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+              this.pendingToolCalls.push({ id: invocation.toolCallId, name: tool.name, arguments: toolArgs });
+              return tool.handler(toolArgs);
+            },
+          })),
+          // Restrict the session to the caller's tools (no built-in shell or file writes)
+          availableTools: definitions.map((tool) => tool.name),
+        }),
         onPermissionRequest: async () => ({ kind: 'approved' as const }),
       });
     }
@@ -301,19 +345,24 @@ export class AgentSession {
 
     this.messages.push({ role: 'user', content: userMessage });
     this.turnCount++;
+    this.pendingToolCalls = [];
 
     try {
       const session = await this.ensureSession();
       const response = await session.sendAndWait({
         prompt: userMessage,
-      }, 120000);
+      }, this.config.turnTimeoutMs ?? 120000);
 
       const content = response?.data?.content || '';
       const finishReason: AgentResult['finishReason'] = response ? 'stop' : 'error';
 
       this.messages.push({ role: 'assistant', content });
 
-      return { content, finishReason };
+      return {
+        content,
+        finishReason,
+        ...(this.pendingToolCalls.length > 0 && { toolCalls: [...this.pendingToolCalls] }),
+      };
     } catch (error) {
       core.error(`Agent session error: ${error instanceof Error ? error.message : String(error)}`);
       return { content: '', finishReason: 'error' };
@@ -583,7 +632,12 @@ Respond with valid JSON:
       "file": "path/to/file.ts",
       "line": 42,
       "description": "Description of the issue",
-      "suggestion": "How to fix it"
+      "suggestion": "How to fix it",
+      "fix": {
+        "startLine": 42,
+        "endLine": 43,
+        "replacement": "exact code replacing lines 42-43"
+      }
     }
   ],
   "codeQualityIssues": [...],
@@ -596,7 +650,9 @@ Respond with valid JSON:
     }
   ],
   "summary": "Brief overall summary of the review"
-}`;
+}
+
+Only include "fix" when you can give the exact code: startLine and endLine are lines of the new version of the file that appear in the diff, and "replacement" replaces them completely, with indentation (use "" to delete them). Otherwise leave "fix" out and describe the change in "suggestion".`;
 }
 
 /**
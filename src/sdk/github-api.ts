@@ -31,6 +31,16 @@ export interface PullRequestRef extends RepoRef {
   pullNumber: number;
 }
 
+/** Inline review comment on the new version of a file */
+export interface ReviewComment {
+  path: string;
+  /** Line commented on; the last line of a multi-line comment */
+  line: number;
+  /** First line of a multi-line comment */
+  start_line?: number;
+  body: string;
+}
+
 /**
  * Adds labels to an issue
  *
@@ -184,6 +194,22 @@ export function formatAuditLog(auditEntry: AgentAuditEntry): string {
   );
 }
 
+/**
+ * Reads back an audit log entry appended with formatAuditLog
+ *
+ * @returns The entry, or null if the body has no (valid) audit block
+ */
+export function parseAuditLog(body: string): AgentAuditEntry | null {
+  const match = body.match(/<summary>🤖 Agent Decision Log<\/summary>\s*```json\n([\s\S]*?)\n```/);
+  if (!match?.[1]) return null;
+  try {
+    const entry = JSON.parse(match[1]) as AgentAuditEntry;
+    return entry && typeof entry === 'object' && typeof entry.agent === 'string' ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Posts an agent audit log as a collapsed comment
  *
@@ -309,7 +335,7 @@ export async function createPullRequestReview(
   ref: PullRequestRef,
   event: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT',
   body: string,
-  comments?: Array<{ path: string; line: number; body: string }>,
+  comments?: ReviewComment[],
   commitId?: string
 ): Promise<void> {
   // If comments are provided but no commitId, fetch the latest commit
@@ -327,8 +353,14 @@ export async function createPullRequestReview(
   const postReview = async (
     reviewEvent: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT',
     reviewBody: string,
-    reviewComments?: Array<{ path: string; line: number; body: string }>
+    reviewComments?: ReviewComment[]
   ) => {
+    // Comments are always on the new version of the file
+    const anchored = reviewComments?.map((comment) => ({
+      ...comment,
+      side: 'RIGHT' as const,
+      ...(comment.start_line ? { start_side: 'RIGHT' as const } : {}),
+    }));
     try {
       await octokit.rest.pulls.createReview({
         owner: ref.owner,
@@ -337,7 +369,7 @@ export async function createPullRequestReview(
         commit_id,
         event: reviewEvent,
         body: reviewBody,
-        comments: reviewComments,
+        comments: anchored,
       });
     } catch (err) {
       const msg = err instanceof Error ? err.message.toLowerCase() : '';
@@ -351,7 +383,7 @@ export async function createPullRequestReview(
           commit_id,
           event: 'COMMENT',
           body: reviewBody + '\n\n*Note: Auto-approval not possible for bot-created PRs.*',
-          comments: reviewComments,
+          comments: anchored,
         });
         return;
       }
@@ -374,7 +406,8 @@ export async function createPullRequestReview(
       let updatedBody = body;
       updatedBody += '\n\n---\n\n**Inline Comments** (could not attach to specific lines):\n\n';
       for (const comment of comments) {
-        updatedBody += `**${comment.path}** (line ${comment.line}):\n${comment.body}\n\n`;
+        const lines = comment.start_line ? `lines ${comment.start_line}-${comment.line}` : `line ${comment.line}`;
+        updatedBody += `**${comment.path}** (${lines}):\n${comment.body}\n\n`;
       }
 
       // Retry without inline comments (postReview handles self-approval fallback)
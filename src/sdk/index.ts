@@ -27,6 +27,7 @@ export {
   getPullRequestReviews,
   isDependabotPR,
   formatAuditLog,
+  parseAuditLog,
   logAgentDecision,
   searchDuplicates,
   createAuditEntry,
@@ -41,6 +42,7 @@ export {
   type RepoRef,
   type IssueRef,
   type PullRequestRef,
+  type ReviewComment,
 } from './github-api.js';
 
 // Copilot client
@@ -64,6 +66,7 @@ export {
   type Message,
   type AgentResult,
   type ToolCall,
+  type AgentToolDefinition,
   type CompletionOptions,
 } from './copilot-client.js';
 
@@ -158,6 +158,29 @@ describe('validateReviewOutput', () => {
     expect(result.securityIssues[0].file).toBe('Windows/System32/config');
   });
 
+  it('should keep suggested fixes verbatim and drop malformed ones', () => {
+    const output = JSON.stringify({
+      overallAssessment: 'comment',
+      codeQualityIssues: [
+        {
+          severity: 'low',
+          file: 'src/a.ts',
+          description: 'Off by one',
+          fix: { startLine: 4, endLine: 5, replacement: '  for (let i = 0; i < n; i++) {\r\n    total += i;\n' },
+        },
+        { severity: 'low', file: 'src/a.ts', line: 9, description: 'Reversed', fix: { startLine: 9, endLine: 8, replacement: 'x' } },
+        { severity: 'low', file: 'src/a.ts', line: 9, description: 'Fence', fix: { startLine: 9, endLine: 9, replacement: '```\n$(id)' } },
+      ],
+      summary: 'Test',
+    });
+
+    const [fixed, reversed, fenced] = validateReviewOutput(output).codeQualityIssues;
+    expect(fixed.fix).toEqual({ startLine: 4, endLine: 5, replacement: '  for (let i = 0; i < n; i++) {\n    total += i;' });
+    expect(fixed.line).toBe(5);
+    expect(reversed.fix).toBeUndefined();
+    expect(fenced.fix).toBeUndefined();
+  });
+
   it('should default invalid assessment to comment', () => {
     const output = JSON.stringify({
       overallAssessment: 'force-merge',
@@ -12,6 +12,7 @@ import {
   type TriageResult,
   type ReviewResult,
   type ReviewIssue,
+  type SuggestedFix,
 } from './types.js';
 import { stripShellMetacharacters } from './sanitizer.js';
 
@@ -21,6 +22,7 @@ const MAX_TEXT_LENGTH = {
   reasoning: 1000,
   description: 500,
   suggestion: 500,
+  replacement: 4000,
 };
 
 /** Priority values that are allowed */
@@ -223,12 +225,41 @@ function validateIssueArray(input: unknown): ReviewIssue[] {
       const suggestion = obj['suggestion']
         ? sanitizeTextField(String(obj['suggestion']), MAX_TEXT_LENGTH.suggestion)
         : undefined;
+      const fix = validateFix(obj['fix']);
 
-      return { severity, file, line, description, suggestion };
+      return fix
+        ? { severity, file, line: line ?? fix.endLine, description, suggestion, fix }
+        : { severity, file, line, description, suggestion };
     })
     .filter((item): item is ReviewIssue => item !== null);
 }
 
+/**
+ * Validates a suggested fix
+ *
+ * The replacement is code, so its whitespace is kept as is; fixes that
+ * could break out of the suggestion block are dropped.
+ */
+function validateFix(input: unknown): SuggestedFix | undefined {
+  if (typeof input !== 'object' || input === null) return undefined;
+
+  const obj = input as Record<string, unknown>;
+  const startLine = obj['startLine'];
+  const endLine = obj['endLine'];
+  const replacement = obj['replacement'];
+  if (
+    typeof startLine !== 'number' || !Number.isInteger(startLine) || startLine < 1 ||
+    typeof endLine !== 'number' || !Number.isInteger(endLine) || endLine < startLine ||
+    typeof replacement !== 'string' ||
+    replacement.length > MAX_TEXT_LENGTH.replacement ||
+    replacement.includes('```')
+  ) {
+    return undefined;
+  }
+
+  return { startLine, endLine, replacement: replacement.replace(/\r\n/g, '\n').replace(/\n$/, '') };
+}
+
 /**
  * Validates an array of suggestions
  */
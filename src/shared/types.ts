@@ -95,6 +95,18 @@ export interface ReviewIssue {
   line?: number;
   description: string;
   suggestion?: string;
+  /** Exact replacement code, offered as a GitHub suggested change */
+  fix?: SuggestedFix;
+}
+
+/** Replacement for a range of lines in the new version of a file */
+export interface SuggestedFix {
+  /** First line replaced */
+  startLine: number;
+  /** Last line replaced (inclusive) */
+  endLine: number;
+  /** The new lines; empty to delete the range */
+  replacement: string;
 }
 
 /** Review suggestion (non-blocking) */
@@ -243,6 +255,8 @@ export interface AgentAuditEntry {
   injectionFlags: string[];
   actionsTaken: string[];
   model: ModelId;
+  /** Commit the agent acted on (e.g. the PR head a review covered) */
+  headSha?: string;
 }
 
 /** Allowed labels for issues */
@@ -277,6 +291,10 @@ export const ALLOWED_LABELS = [
   'agent-coded',
   'ready-for-research',
   'has-sub-issues',
+  'stack-queued',
+  'agent-revert',
+  'awaiting-plan-approval',
+  'needs-tests',
   'triaged',
   'stale',
   'research-report',